@@ -34,6 +34,25 @@ export const addItemsToContainerOrDrop = (options: {
 	}
 };
 
+/**
+ * Calls `callback` for every item stack in the given `container`, in slot order. Empty slots are skipped.
+ *
+ * @param container - The `container` to iterate through
+ * @param callback - A function that receives each item stack and its slot index.
+ */
+export const forEachItemStack = (
+	container: mc.Container,
+	callback: (itemStack: mc.ItemStack, index: number) => void,
+): void => {
+	for (let i = 0; i < container.size; i++) {
+		const itemStack = container.getItem(i);
+
+		if (itemStack) {
+			callback(itemStack, i);
+		}
+	}
+};
+
 /**
  * Finds the first item stack in the given `container` that matches the specified predicate condition.
  *
@@ -0,0 +1,51 @@
+/**
+ * Maps linear progress (0-1) to eased progress. Most easings return 0 at 0 and 1 at 1.
+ */
+export type EasingFunction = (t: number) => number;
+
+const BACK_OVERSHOOT = 1.70158;
+
+const easeOutBounce: EasingFunction = (t) => {
+	if (t < 1 / 2.75) return 7.5625 * t * t;
+	if (t < 2 / 2.75) return 7.5625 * (t -= 1.5 / 2.75) * t + 0.75;
+	if (t < 2.5 / 2.75) return 7.5625 * (t -= 2.25 / 2.75) * t + 0.9375;
+	return 7.5625 * (t -= 2.625 / 2.75) * t + 0.984375;
+};
+
+/**
+ * Common easing functions.
+ *
+ * @example
+ * ```typescript
+ * const eased = Easing.easeOutCubic(0.5); // 0.875
+ * ```
+ */
+export const Easing = Object.freeze({
+	linear: ((t) => t) as EasingFunction,
+	/** Holds the start value until the end of the segment. */
+	step: ((t) => (t < 1 ? 0 : 1)) as EasingFunction,
+
+	easeInQuad: ((t) => t * t) as EasingFunction,
+	easeOutQuad: ((t) => 1 - (1 - t) * (1 - t)) as EasingFunction,
+	easeInOutQuad: ((t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2)) as EasingFunction,
+
+	easeInCubic: ((t) => t ** 3) as EasingFunction,
+	easeOutCubic: ((t) => 1 - (1 - t) ** 3) as EasingFunction,
+	easeInOutCubic: ((t) => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2)) as EasingFunction,
+
+	easeInSine: ((t) => 1 - Math.cos((t * Math.PI) / 2)) as EasingFunction,
+	easeOutSine: ((t) => Math.sin((t * Math.PI) / 2)) as EasingFunction,
+	easeInOutSine: ((t) => -(Math.cos(Math.PI * t) - 1) / 2) as EasingFunction,
+
+	easeInExpo: ((t) => (t === 0 ? 0 : 2 ** (10 * t - 10))) as EasingFunction,
+	easeOutExpo: ((t) => (t === 1 ? 1 : 1 - 2 ** (-10 * t))) as EasingFunction,
+
+	/** Pulls back slightly below 0 before moving forward. */
+	easeInBack: ((t) => (BACK_OVERSHOOT + 1) * t ** 3 - BACK_OVERSHOOT * t * t) as EasingFunction,
+	/** Overshoots slightly above 1 before settling. */
+	easeOutBack: ((t) =>
+		1 + (BACK_OVERSHOOT + 1) * (t - 1) ** 3 + BACK_OVERSHOOT * (t - 1) ** 2) as EasingFunction,
+
+	easeInBounce: ((t) => 1 - easeOutBounce(1 - t)) as EasingFunction,
+	easeOutBounce,
+});
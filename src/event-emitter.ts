@@ -1,4 +1,4 @@
-import { console } from "./index.js";
+import * as console from "./console.js";
 
 /**
  * Type definitions for event handlers
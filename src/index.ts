@@ -3,12 +3,19 @@ export * as console from "./console.js";
 export * from "./container.js";
 export * from "./damage.js";
 export * from "./direction.js";
+export * from "./easing.js";
 export * from "./entity.js";
 export * from "./event-emitter.js";
+export * from "./item-hook-engine.js";
+export * from "./item-hook-world-driver.js";
 export * from "./item-hook.js";
 export * from "./math.js";
 export * from "./misc.js";
+export * from "./player-input.js";
 export * from "./player.js";
 export * from "./state-driven-hooked-item.js";
+export * from "./state-machine.js";
+export * from "./timeline-composite.js";
+export * from "./timeline-player.js";
 export * from "./timeline.js";
 export * from "./vec3.js";
@@ -0,0 +1,1512 @@
+// `@minecraft/server` is only imported as types, so that the engine can also run outside of the game.
+import type * as mc from "@minecraft/server";
+import * as console from "./console.js";
+import { EventEmitter } from "./event-emitter.js";
+import { PlayerInputTracker, type PlayerInputTrackerOptions } from "./player-input.js";
+import type {
+	EntityHookFilter,
+	EntityHookedItem,
+	EntityHookedItemContext,
+	EntityHookedItemFactory,
+	HookedItemContext,
+	HookedItemFactory,
+	HookedItemEvents,
+	ItemHookDeleteReason,
+	ItemHookErrorInfo,
+	ItemHookErrorPolicy,
+	ItemHookIdentityMode,
+	ItemHookLifecycleEvents,
+	ItemHookMatcher,
+	ItemHookRegisterOptions,
+	ItemHookRegistry,
+} from "./item-hook.js";
+
+/**
+ * Provides the world, system and event sources that an {@link ItemHookEngine} runs on.
+ *
+ * The default driver (see `item-hook-world-driver.ts`) is backed by `world` and `system`
+ * of `@minecraft/server`. An in-memory driver for tests is exported from
+ * `@lc-studios-mc/scripting-utils/testing`, which can be loaded without the game.
+ */
+export interface ItemHookDriver {
+	/**
+	 * Connects the engine to the event sources.
+	 * The driver must call {@link ItemHookEngine.tick} every tick, and forward world events
+	 * to the `handle*` methods of the engine.
+	 */
+	connect(engine: ItemHookEngine): void;
+	/** Gets all players in the world. */
+	getPlayers(): readonly mc.Player[];
+	/** Gets all non-player entities that match any of the given types or families. */
+	getEntities(types: ReadonlySet<string>, families: ReadonlySet<string>): Iterable<mc.Entity>;
+	/** Checks whether an entity is a player. */
+	isPlayer(entity: mc.Entity): entity is mc.Player;
+	/** Runs a callback once on the next tick. */
+	runNextTick(callback: () => void): void;
+}
+
+const MAINHAND_SLOT = "Mainhand" as mc.EquipmentSlot;
+const OFFHAND_SLOT = "Offhand" as mc.EquipmentSlot;
+
+/**
+ * Slots checked when routing item use events, in order of priority.
+ */
+const USE_EVENT_SLOTS = [MAINHAND_SLOT, OFFHAND_SLOT] as const;
+
+const CLEANUP_INTERVAL = 200; // Every 200 ticks (10 seconds)
+
+/**
+ * Internal representation of a registered item hook.
+ */
+interface ItemHookRegistration {
+	matcher: ItemHookMatcher;
+	/** Key used to detect duplicate registrations. Undefined for predicates. */
+	key?: string;
+	test: (itemStack: mc.ItemStack) => boolean;
+	factory: (args: HookedItemContext) => EntityHookedItem;
+	/** Set when the hook is also active for non-player entities. */
+	entityFactory?: EntityHookedItemFactory;
+	entityTypes: ReadonlySet<string>;
+	entityFamilies: readonly string[];
+	slots: ReadonlySet<mc.EquipmentSlot>;
+	priority: number;
+	identity: ItemHookIdentityMode;
+	persistInterval: number;
+	tickInterval: number;
+	maxChargeTicks: number;
+	followItem: boolean;
+	inputOptions?: PlayerInputTrackerOptions;
+	errorPolicy: ItemHookErrorPolicy;
+	onError?: (info: ItemHookErrorInfo) => void;
+	order: number;
+}
+
+const isExactItemTypeMatcher = (matcher: ItemHookMatcher): matcher is string =>
+	typeof matcher === "string" && !matcher.includes("*");
+
+const getMatcherKey = (matcher: ItemHookMatcher): string | undefined => {
+	if (typeof matcher === "string") return `type:${matcher}`;
+	if (typeof matcher === "function") return undefined;
+	return `tag:${matcher.tag}`;
+};
+
+const describeMatcher = (matcher: ItemHookMatcher): string => {
+	if (typeof matcher === "string") return matcher;
+	if (typeof matcher === "function") return `predicate ${matcher.name || "(anonymous)"}`;
+	return `tag ${matcher.tag}`;
+};
+
+const globToRegExp = (glob: string): RegExp => {
+	const escaped = glob.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+	return new RegExp(`^${escaped.join(".*")}$`);
+};
+
+const createMatcherTest = (matcher: ItemHookMatcher): ((itemStack: mc.ItemStack) => boolean) => {
+	if (typeof matcher === "function") return matcher;
+
+	if (typeof matcher === "string") {
+		if (!matcher.includes("*")) return (itemStack) => itemStack.typeId === matcher;
+
+		const regExp = globToRegExp(matcher);
+		return (itemStack) => regExp.test(itemStack.typeId);
+	}
+
+	const tag = matcher.tag;
+	return (itemStack) => itemStack.hasTag(tag);
+};
+
+const isEntitySelected = (
+	entity: mc.Entity,
+	types: ReadonlySet<string>,
+	families: readonly string[],
+): boolean => {
+	if (types.has(entity.typeId)) return true;
+	if (families.length <= 0) return false;
+
+	const typeFamily = entity.getComponent("type_family");
+	if (!typeFamily) return false;
+
+	return families.some((family) => typeFamily.hasTypeFamily(family));
+};
+
+/**
+ * Registries created by {@link createItemHookRegistry}, which the engine can read the registrations of.
+ */
+const internalRegistries = new WeakMap<ItemHookRegistry, InternalItemHookRegistry>();
+
+type InternalItemHookRegistry = ReturnType<typeof createInternalItemHookRegistry>;
+
+const createInternalItemHookRegistry = () => ({
+	/** Registrations with exact type ID matchers, for fast lookup. */
+	registrationsByItemType: new Map<string, ItemHookRegistration>(),
+	/** Registrations with any other matcher, sorted by priority (descending) then order. */
+	matcherRegistrations: [] as ItemHookRegistration[],
+	/** Union of the slots of all registrations, so that unused slots are never read. */
+	slotsInUse: new Set<mc.EquipmentSlot>(),
+	/** Union of the entity types of all registrations for non-player entities. */
+	entityTypesInUse: new Set<string>(),
+	/** Union of the entity families of all registrations for non-player entities. */
+	entityFamiliesInUse: new Set<string>(),
+	orderCounter: 0,
+	events: new EventEmitter<ItemHookLifecycleEvents>(),
+
+	register(
+		matcher: ItemHookMatcher,
+		factory: HookedItemFactory | EntityHookedItemFactory,
+		options?: ItemHookRegisterOptions & { entities?: EntityHookFilter },
+	): void {
+		const key = getMatcherKey(matcher);
+		const isDuplicate = isExactItemTypeMatcher(matcher)
+			? this.registrationsByItemType.has(matcher)
+			: this.matcherRegistrations.some((registration) =>
+					key === undefined ? registration.matcher === matcher : registration.key === key,
+				);
+
+		if (isDuplicate) {
+			throw new Error(`Item hook is already registered for ${describeMatcher(matcher)}.`);
+		}
+
+		const slots = new Set(options?.slots ?? [MAINHAND_SLOT]);
+		if (slots.size <= 0) {
+			throw new Error(
+				`At least one equipment slot must be specified for ${describeMatcher(matcher)}.`,
+			);
+		}
+
+		const followItem = options?.followItem ?? false;
+		const identity = options?.identity ?? (followItem ? "instance" : "type");
+		if (followItem && identity !== "instance") {
+			throw new Error(
+				`followItem requires identity "instance", but ${describeMatcher(matcher)} uses "${identity}".`,
+			);
+		}
+
+		const registration: ItemHookRegistration = {
+			matcher,
+			key,
+			test: createMatcherTest(matcher),
+			factory,
+			entityFactory: options?.entities ? (factory as EntityHookedItemFactory) : undefined,
+			entityTypes: new Set(options?.entities?.types),
+			entityFamilies: [...(options?.entities?.families ?? [])],
+			slots,
+			priority: options?.priority ?? 0,
+			identity,
+			persistInterval: Math.max(0, Math.floor(options?.persistInterval ?? 100)),
+			tickInterval: Math.max(1, Math.floor(options?.tickInterval ?? 1)),
+			maxChargeTicks: Math.max(1, options?.maxChargeTicks ?? 20),
+			followItem,
+			inputOptions: options?.input,
+			errorPolicy: options?.errorPolicy ?? "delete",
+			onError: options?.onError,
+			order: this.orderCounter++,
+		};
+
+		if (isExactItemTypeMatcher(matcher)) {
+			this.registrationsByItemType.set(matcher, registration);
+		} else {
+			this.matcherRegistrations.push(registration);
+			this.matcherRegistrations.sort((a, b) => b.priority - a.priority || a.order - b.order);
+		}
+
+		this.updateSlotsInUse();
+	},
+
+	unregister(matcher: ItemHookMatcher): boolean {
+		let deleted: boolean;
+
+		if (isExactItemTypeMatcher(matcher)) {
+			deleted = this.registrationsByItemType.delete(matcher);
+		} else {
+			const key = getMatcherKey(matcher);
+			const index = this.matcherRegistrations.findIndex((registration) =>
+				key === undefined ? registration.matcher === matcher : registration.key === key,
+			);
+
+			deleted = index !== -1;
+			if (deleted) this.matcherRegistrations.splice(index, 1);
+		}
+
+		this.updateSlotsInUse();
+		return deleted;
+	},
+
+	unregisterAll(): void {
+		this.registrationsByItemType.clear();
+		this.matcherRegistrations.length = 0;
+		this.updateSlotsInUse();
+	},
+
+	hasRegistrations(): boolean {
+		return this.registrationsByItemType.size > 0 || this.matcherRegistrations.length > 0;
+	},
+
+	hasEntityRegistrations(): boolean {
+		return this.entityTypesInUse.size > 0 || this.entityFamiliesInUse.size > 0;
+	},
+
+	getRegistration(
+		itemStack: mc.ItemStack,
+		slot: mc.EquipmentSlot,
+		entity: mc.Entity,
+		isPlayer: boolean,
+	): ItemHookRegistration | undefined {
+		const isApplicable = (registration: ItemHookRegistration): boolean =>
+			registration.slots.has(slot) &&
+			(isPlayer ||
+				(registration.entityFactory !== undefined &&
+					isEntitySelected(entity, registration.entityTypes, registration.entityFamilies)));
+
+		const exactRegistration = this.registrationsByItemType.get(itemStack.typeId);
+		if (exactRegistration && isApplicable(exactRegistration)) {
+			return exactRegistration;
+		}
+
+		for (const registration of this.matcherRegistrations) {
+			if (!isApplicable(registration)) continue;
+			if (registration.test(itemStack)) return registration;
+		}
+
+		return undefined;
+	},
+
+	updateSlotsInUse(): void {
+		this.slotsInUse.clear();
+		this.entityTypesInUse.clear();
+		this.entityFamiliesInUse.clear();
+
+		const registrations = [...this.registrationsByItemType.values(), ...this.matcherRegistrations];
+
+		for (const registration of registrations) {
+			for (const slot of registration.slots) {
+				this.slotsInUse.add(slot);
+			}
+
+			if (!registration.entityFactory) continue;
+
+			for (const type of registration.entityTypes) {
+				this.entityTypesInUse.add(type);
+			}
+			for (const family of registration.entityFamilies) {
+				this.entityFamiliesInUse.add(family);
+			}
+		}
+	},
+});
+
+/**
+ * Creates a new, empty registry for item hook factories.
+ * Pass it to an {@link ItemHookEngine} to run the registered hooks.
+ */
+export const createItemHookRegistry = (): ItemHookRegistry => {
+	const registry = createInternalItemHookRegistry();
+	internalRegistries.set(registry, registry);
+	return registry;
+};
+
+/**
+ * Internal shared fields for HookedItemWrapper.
+ */
+interface HookedItemInternalSharedFields {
+	currentTick: number;
+	isUsing: boolean;
+	/** Ticks since the current (or last) use started. */
+	useTicks: number;
+	maxChargeTicks: number;
+	deleteOnNextTick: boolean;
+	isDeleted: boolean;
+	/** Hotbar slot index the item is in. Changes when the hook follows the item. */
+	slotIndex: number;
+	tickInterval: number;
+	/** `currentTick` at which the hook wakes up. `0` when not sleeping. */
+	sleepUntilTick: number;
+}
+
+/**
+ * Internal wrapper for managing per-entity hooked item state.
+ */
+interface HookedItemWrapper {
+	shared: HookedItemInternalSharedFields;
+	context: EntityHookedItemContext;
+	registration: ItemHookRegistration;
+	instance: EntityHookedItem;
+	/** JSON of the last saved state, used to skip redundant writes. */
+	lastPersistedJson?: string;
+	/** Set when a callback threw an error, so that the deletion on the next tick is reported as such. */
+	hasError?: boolean;
+}
+
+/**
+ * Keeps a registration from creating hooks for an entity after errors (see ItemHookErrorPolicy).
+ */
+interface HookSuspension {
+	/** Engine tick until which no hook is created. */
+	untilTick: number;
+	/** Number of consecutive errors, used for backoff. */
+	errorStreak: number;
+}
+
+function areItemsEquivalent(
+	item1: mc.ItemStack | undefined,
+	item2: mc.ItemStack | undefined,
+	identity: ItemHookIdentityMode,
+): boolean {
+	if (!item1 || !item2) return item1 === item2;
+
+	if (item1.typeId !== item2.typeId) return false;
+
+	if (identity === "instance") {
+		const instanceId1 = getItemInstanceId(item1);
+
+		// Stackable items cannot be stamped, so they fall back to type equivalence
+		if (instanceId1 !== undefined) return instanceId1 === getItemInstanceId(item2);
+	}
+
+	return true;
+}
+
+const ITEM_INSTANCE_ID_PROPERTY = "lc:hooked_item_instance_id";
+let instanceIdCounter = 0;
+
+/**
+ * Gets the stable instance ID that item hooks with `identity: "instance"` stamp on items.
+ *
+ * @param itemStack - The item stack to read the ID from.
+ * @returns The instance ID, or `undefined` if the item has not been stamped.
+ */
+export const getItemInstanceId = (itemStack: mc.ItemStack): string | undefined => {
+	if (itemStack.isStackable) return undefined;
+	const value = itemStack.getDynamicProperty(ITEM_INSTANCE_ID_PROPERTY);
+	return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * Stamps an instance ID on the item in the equipment slot, unless it already has one.
+ * The ID is also written to `itemStack`, which must be a copy of the item in the slot.
+ */
+function stampItemInstanceId(
+	equipmentSlot: mc.ContainerSlot,
+	itemStack: mc.ItemStack,
+): string | undefined {
+	if (itemStack.isStackable) return undefined;
+
+	const existingId = getItemInstanceId(itemStack);
+	if (existingId !== undefined) return existingId;
+
+	const newId = `${Date.now().toString(36)}-${(instanceIdCounter++).toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+	equipmentSlot.setDynamicProperty(ITEM_INSTANCE_ID_PROPERTY, newId);
+	itemStack.setDynamicProperty(ITEM_INSTANCE_ID_PROPERTY, newId);
+
+	return newId;
+}
+
+const ITEM_STATE_PROPERTY = "lc:hooked_item_state";
+
+/**
+ * Reads the state saved by {@link ItemHookEngine.persistState} from an item stack.
+ */
+function readPersistedState(itemStack: mc.ItemStack): { json?: string; state?: unknown } {
+	if (itemStack.isStackable) return {};
+
+	const json = itemStack.getDynamicProperty(ITEM_STATE_PROPERTY);
+	if (typeof json !== "string") return {};
+
+	try {
+		return { json, state: JSON.parse(json) };
+	} catch (error) {
+		console.warn(`Could not parse saved hooked item state of ${itemStack.typeId}: ${error}`);
+		return {};
+	}
+}
+
+function getItemStackSafely(
+	equippable: mc.EntityEquippableComponent,
+	slot: mc.EquipmentSlot,
+	entityDescription: string,
+): mc.ItemStack | undefined {
+	try {
+		return equippable.getEquipmentSlot(slot).getItem();
+	} catch (error) {
+		console.warn(`Error getting ${slot} item stack for ${entityDescription}: ${error}`);
+		return undefined;
+	}
+}
+
+/**
+ * Runs item hooks: creates, ticks and deletes hooked items of players and selected entities,
+ * and routes events to them.
+ *
+ * All world access goes through the {@link ItemHookDriver}, so that the engine can be driven
+ * by the game (default) or by an in-memory driver in tests.
+ *
+ * @example
+ * ```typescript
+ * const driver = new FakeItemHookDriver();
+ * const engine = new ItemHookEngine(driver);
+ * engine.registry.register("lc:pistol", (ctx) => new Pistol(ctx));
+ *
+ * const player = driver.addPlayer();
+ * player.container.setItem(0, new FakeItemStack("lc:pistol"));
+ * driver.tick(); // Creates the Pistol hook
+ * ```
+ */
+export class ItemHookEngine {
+	/** Registry of the item hooks that this engine runs. */
+	readonly registry: ItemHookRegistry;
+
+	private readonly registrations: InternalItemHookRegistry;
+	private readonly wrappersByEntity = new Map<
+		mc.Entity,
+		Map<mc.EquipmentSlot, HookedItemWrapper>
+	>();
+
+	/**
+	 * Non-player entities that were ticked on the last tick.
+	 * Used to clean up hooks of entities that no longer match any registration.
+	 */
+	private lastTickedEntities = new Set<mc.Entity>();
+
+	private cleanupCounter = 0;
+
+	/** Number of times tick() has been called. */
+	private engineTick = 0;
+
+	private readonly suspensions = new WeakMap<
+		mc.Entity,
+		Map<ItemHookRegistration, HookSuspension>
+	>();
+
+	/** Errors of hooks with the `"rethrow"` policy, thrown together on the next tick. */
+	private pendingRethrows: unknown[] = [];
+
+	/**
+	 * Creates a new engine and connects it to the driver.
+	 *
+	 * @param driver - Provides the world, system and event sources.
+	 * @param registry - Registry created with {@link createItemHookRegistry}. Defaults to a new registry.
+	 * @throws {Error} When `registry` was not created with {@link createItemHookRegistry}.
+	 */
+	constructor(
+		private readonly driver: ItemHookDriver,
+		registry: ItemHookRegistry = createItemHookRegistry(),
+	) {
+		const registrations = internalRegistries.get(registry);
+		if (!registrations) {
+			throw new Error("Item hook registry must be created with createItemHookRegistry().");
+		}
+
+		this.registry = registry;
+		this.registrations = registrations;
+
+		driver.connect(this);
+	}
+
+	/**
+	 * Calls onTickEntity() for each player (and selected entity) in the world.
+	 * Must be called by the driver every tick.
+	 */
+	tick(): void {
+		this.engineTick++;
+
+		if (!this.registrations.hasRegistrations()) return;
+
+		const players = this.driver.getPlayers();
+
+		for (let i = 0; i < players.length; i++) {
+			const player = players[i];
+			if (player) {
+				this.onTickEntity(player);
+			}
+		}
+
+		const entities = new Set<mc.Entity>();
+
+		if (this.registrations.hasEntityRegistrations()) {
+			const candidates = this.driver.getEntities(
+				this.registrations.entityTypesInUse,
+				this.registrations.entityFamiliesInUse,
+			);
+
+			for (const entity of candidates) {
+				if (this.driver.isPlayer(entity)) continue;
+				entities.add(entity);
+			}
+		}
+
+		for (const entity of entities) {
+			this.onTickEntity(entity);
+		}
+
+		this.lastTickedEntities = entities;
+
+		// Periodic cleanup for stale entries
+		this.cleanupCounter++;
+		if (this.cleanupCounter >= CLEANUP_INTERVAL) {
+			this.cleanupCounter = 0;
+			this.performPeriodicCleanup();
+		}
+	}
+
+	/**
+	 * Gets the active hook of a player or an entity in an equipment slot.
+	 *
+	 * @param entity - The player or entity.
+	 * @param slot - The equipment slot. Defaults to the mainhand.
+	 * @returns The hook, or `undefined` if there is no active hook in the slot.
+	 */
+	getActiveHook(
+		entity: mc.Entity,
+		slot: mc.EquipmentSlot = MAINHAND_SLOT,
+	): EntityHookedItem | undefined {
+		return this.getWrapper(entity, slot)?.instance;
+	}
+
+	/**
+	 * Gets all active hooks.
+	 *
+	 * @param entity - If specified, only the hooks of this player or entity are returned.
+	 * @returns The hooks, in no particular order.
+	 */
+	getActiveHooks(entity?: mc.Entity): EntityHookedItem[] {
+		const wrapperMaps =
+			entity === undefined
+				? [...this.wrappersByEntity.values()]
+				: [this.wrappersByEntity.get(entity)];
+
+		const hooks: EntityHookedItem[] = [];
+
+		for (const wrappers of wrapperMaps) {
+			if (!wrappers) continue;
+
+			for (const wrapper of wrappers.values()) {
+				hooks.push(wrapper.instance);
+			}
+		}
+
+		return hooks;
+	}
+
+	/**
+	 * Gets the active hook of a player or an entity that is an instance of the given class.
+	 *
+	 * @example
+	 * ```typescript
+	 * const pistol = mainItemHookEngine.getActiveHookOf(player, Pistol);
+	 * if (pistol) player.onScreenDisplay.setActionBar(`Ammo: ${pistol.ammo}`);
+	 * ```
+	 *
+	 * @param entity - The player or entity.
+	 * @param hookClass - The class of the hook.
+	 * @param slot - If specified, only the hook in this slot is checked.
+	 * @returns The hook, or `undefined` if no active hook is an instance of `hookClass`.
+	 */
+	getActiveHookOf<T extends EntityHookedItem>(
+		entity: mc.Entity,
+		hookClass: abstract new (...args: any[]) => T,
+		slot?: mc.EquipmentSlot,
+	): T | undefined {
+		const hooks =
+			slot === undefined ? this.getActiveHooks(entity) : [this.getActiveHook(entity, slot)];
+
+		for (const hook of hooks) {
+			if (hook instanceof hookClass) return hook;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Deletes the active hooks of a player or an entity right away.
+	 * A hook is created again on the next tick if the item in the slot still matches a registration.
+	 *
+	 * @param entity - The player or entity.
+	 * @param slot - If specified, only the hook in this slot is deleted.
+	 * @returns Whether any hook was deleted.
+	 */
+	forceDelete(entity: mc.Entity, slot?: mc.EquipmentSlot): boolean {
+		const wrappers = this.wrappersByEntity.get(entity);
+		if (!wrappers) return false;
+
+		if (slot !== undefined) {
+			if (!wrappers.has(slot)) return false;
+			this.deleteWrapper(entity, slot, "forced");
+			return true;
+		}
+
+		this.deleteAllWrappers(entity, "forced");
+		return true;
+	}
+
+	/**
+	 * Deletes the active hooks of a player or an entity, and creates new hooks for the items
+	 * it currently holds right away, instead of on the next tick.
+	 * The new hooks are not ticked until the next tick.
+	 *
+	 * Useful after modifying an item or the registrations, so that the change is reflected immediately.
+	 *
+	 * @param entity - The player or entity.
+	 */
+	refresh(entity: mc.Entity): void {
+		this.deleteAllWrappers(entity, "forced");
+		this.onTickEntity(entity, false);
+	}
+
+	/**
+	 * Periodically cleans up stale hooks, to handle missed player disconnect and entity removal events.
+	 */
+	private performPeriodicCleanup(): void {
+		const activePlayers = this.driver.getPlayers();
+		const entitiesToRemove: mc.Entity[] = [];
+
+		for (const [entity] of this.wrappersByEntity) {
+			const isActive = this.driver.isPlayer(entity)
+				? activePlayers.includes(entity)
+				: this.lastTickedEntities.has(entity);
+
+			if (!entity.isValid || !isActive) {
+				entitiesToRemove.push(entity);
+			}
+		}
+
+		for (const entity of entitiesToRemove) {
+			console.warn(`Cleaning up stale hook for ${this.describeEntity(entity)}`);
+			this.deleteAllWrappers(entity, "stale");
+		}
+	}
+
+	/**
+	 * Returns a description of an entity for log messages.
+	 */
+	private describeEntity(entity: mc.Entity): string {
+		try {
+			if (this.driver.isPlayer(entity)) return `player ${entity.name || "unknown"}`;
+			return `entity ${entity.typeId} (${entity.id})`;
+		} catch {
+			return "unknown entity";
+		}
+	}
+
+	private isPlayerContext(ctx: EntityHookedItemContext): ctx is HookedItemContext {
+		return this.driver.isPlayer(ctx.entity);
+	}
+
+	/**
+	 * Gets the container slot that holds the item of a wrapper.
+	 */
+	private getContainerSlotOfWrapper(wrapper: HookedItemWrapper): mc.ContainerSlot | undefined {
+		const ctx = wrapper.context;
+
+		if (ctx.slot !== MAINHAND_SLOT || !this.isPlayerContext(ctx)) {
+			return ctx.equippable.getEquipmentSlot(ctx.slot);
+		}
+
+		return ctx.playerInventory.container.getSlot(wrapper.shared.slotIndex);
+	}
+
+	/**
+	 * Saves the serialized state of a hooked item on its item stack.
+	 */
+	private persistState(wrapper: HookedItemWrapper): void {
+		const ctx = wrapper.context;
+
+		try {
+			const state = wrapper.instance.serializeState();
+			if (state === undefined) return;
+
+			const json = JSON.stringify(state);
+			if (json === wrapper.lastPersistedJson) return;
+
+			const containerSlot = this.getContainerSlotOfWrapper(wrapper);
+			if (!containerSlot || !containerSlot.hasItem()) return;
+			if (containerSlot.typeId !== ctx.itemType || containerSlot.isStackable) return;
+
+			// Make sure the state does not end up on another item of the same type
+			if (ctx.instanceId !== undefined) {
+				if (containerSlot.getDynamicProperty(ITEM_INSTANCE_ID_PROPERTY) !== ctx.instanceId) return;
+			}
+
+			containerSlot.setDynamicProperty(ITEM_STATE_PROPERTY, json);
+			wrapper.lastPersistedJson = json;
+		} catch (error) {
+			console.error(
+				`Error saving hooked item state (ID: ${ctx.itemType}) for ${this.describeEntity(ctx.entity)}: ${error}`,
+			);
+		}
+	}
+
+	/**
+	 * Gets the wrapper of an entity in the given slot.
+	 */
+	private getWrapper(entity: mc.Entity, slot: mc.EquipmentSlot): HookedItemWrapper | undefined {
+		return this.wrappersByEntity.get(entity)?.get(slot);
+	}
+
+	/**
+	 * Gets the wrapper that should receive an item use event for the given item type.
+	 */
+	private getWrapperForUseEvent(
+		player: mc.Player,
+		itemType: string | undefined,
+	): HookedItemWrapper | undefined {
+		const wrappers = this.wrappersByEntity.get(player);
+		if (!wrappers) return undefined;
+
+		for (const slot of USE_EVENT_SLOTS) {
+			const wrapper = wrappers.get(slot);
+			if (!wrapper) continue;
+			if (itemType !== undefined && wrapper.context.itemType !== itemType) continue;
+			if (slot === MAINHAND_SLOT) {
+				if (wrapper.shared.slotIndex !== player.selectedSlotIndex) continue;
+			}
+			return wrapper;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Handles per-tick logic for a player or a non-player entity, including hook creation and deletion.
+	 * Pass `shouldTick = false` to only create and delete hooks, without calling onTick.
+	 */
+	private onTickEntity(entity: mc.Entity, shouldTick = true): void {
+		if (!entity.isValid) {
+			this.deleteAllWrappers(entity, "invalid");
+			return;
+		}
+
+		// Validate all required components
+		const equippable = entity.getComponent("equippable");
+		if (!equippable) {
+			console.warn(`Could not find equippable component for ${this.describeEntity(entity)}.`);
+			this.deleteAllWrappers(entity, "invalid");
+			return;
+		}
+
+		const health = entity.getComponent("health");
+		if (!health) {
+			console.warn(`Could not find health component for ${this.describeEntity(entity)}.`);
+			this.deleteAllWrappers(entity, "invalid");
+			return;
+		}
+
+		// Inventory is only required for players
+		let inventory: mc.EntityInventoryComponent | undefined;
+		if (this.driver.isPlayer(entity)) {
+			inventory = entity.getComponent("inventory");
+			if (!inventory) {
+				console.warn(`Could not find inventory component for ${this.describeEntity(entity)}.`);
+				this.deleteAllWrappers(entity, "invalid");
+				return;
+			}
+		}
+
+		const isAlive = health.currentValue > 0;
+		if (!isAlive) {
+			this.deleteAllWrappers(entity, "death");
+			return;
+		}
+
+		// Delete hooks in slots that are no longer used by any registration
+		const wrappers = this.wrappersByEntity.get(entity);
+		if (wrappers) {
+			for (const slot of [...wrappers.keys()]) {
+				if (!this.registrations.slotsInUse.has(slot)) {
+					this.deleteWrapper(entity, slot, "unregistered");
+				}
+			}
+		}
+
+		for (const slot of this.registrations.slotsInUse) {
+			this.onTickEntitySlot(entity, slot, equippable, health, inventory, shouldTick);
+		}
+	}
+
+	/**
+	 * Creates the context for a new hook. Players get a full {@link HookedItemContext}.
+	 */
+	private createContext(
+		entity: mc.Entity,
+		equippable: mc.EntityEquippableComponent,
+		health: mc.EntityHealthComponent,
+		inventory: mc.EntityInventoryComponent | undefined,
+		inputOptions: PlayerInputTrackerOptions | undefined,
+		base: Omit<EntityHookedItemContext, "entity" | "equippable" | "health">,
+	): EntityHookedItemContext {
+		const ctx: EntityHookedItemContext = { ...base, entity, equippable, health };
+
+		if (!this.driver.isPlayer(entity) || !inventory) return ctx;
+
+		const playerCtx: HookedItemContext = {
+			...ctx,
+			player: entity,
+			playerEquippable: equippable,
+			playerHealth: health,
+			playerInventory: inventory,
+			input: new PlayerInputTracker(entity, inputOptions),
+		};
+
+		return playerCtx;
+	}
+
+	/**
+	 * Handles per-tick logic for a single equipment slot of an entity.
+	 */
+	private onTickEntitySlot(
+		entity: mc.Entity,
+		slot: mc.EquipmentSlot,
+		equippable: mc.EntityEquippableComponent,
+		health: mc.EntityHealthComponent,
+		inventory: mc.EntityInventoryComponent | undefined,
+		shouldTick: boolean,
+	): void {
+		const lastWrapper = this.getWrapper(entity, slot);
+		let wrapperForThisTick = lastWrapper;
+
+		const isPlayer = this.driver.isPlayer(entity);
+		const itemStack = getItemStackSafely(equippable, slot, this.describeEntity(entity));
+
+		const slotIndex = slot === MAINHAND_SLOT && isPlayer ? entity.selectedSlotIndex : -1;
+
+		if (lastWrapper && lastWrapper.registration.followItem) {
+			this.followItem(lastWrapper, itemStack, slotIndex);
+		}
+
+		// More robust item equivalence check
+		const isHoldingSameItem =
+			lastWrapper &&
+			lastWrapper.context.itemType === itemStack?.typeId &&
+			lastWrapper.shared.slotIndex === slotIndex &&
+			areItemsEquivalent(
+				lastWrapper.context.initialItemStack,
+				itemStack,
+				lastWrapper.registration.identity,
+			);
+
+		const registrationForCurrentItem = isHoldingSameItem
+			? lastWrapper.registration
+			: itemStack === undefined
+				? undefined
+				: this.registrations.getRegistration(itemStack, slot, entity, isPlayer);
+
+		const shouldDeleteWrapper =
+			lastWrapper &&
+			(!isHoldingSameItem ||
+				!itemStack ||
+				registrationForCurrentItem === undefined ||
+				lastWrapper.shared.deleteOnNextTick);
+
+		if (shouldDeleteWrapper) {
+			const reason: ItemHookDeleteReason = !isHoldingSameItem
+				? "slotChange"
+				: lastWrapper.hasError
+					? "error"
+					: "deleteOnNextTick";
+
+			wrapperForThisTick = undefined;
+			this.deleteWrapper(entity, slot, reason, lastWrapper);
+		}
+
+		const shouldCreateNewHook =
+			!isHoldingSameItem &&
+			itemStack &&
+			registrationForCurrentItem !== undefined &&
+			!this.isSuspended(entity, registrationForCurrentItem);
+
+		if (shouldCreateNewHook) {
+			try {
+				const instanceId =
+					registrationForCurrentItem.identity === "instance"
+						? stampItemInstanceId(equippable.getEquipmentSlot(slot), itemStack)
+						: undefined;
+
+				const persisted = readPersistedState(itemStack);
+
+				const shared: HookedItemInternalSharedFields = {
+					currentTick: 0,
+					isUsing: false,
+					useTicks: 0,
+					maxChargeTicks: registrationForCurrentItem.maxChargeTicks,
+					deleteOnNextTick: false,
+					isDeleted: false,
+					slotIndex,
+					tickInterval: registrationForCurrentItem.tickInterval,
+					sleepUntilTick: 0,
+				};
+
+				const ctx = this.createContext(
+					entity,
+					equippable,
+					health,
+					inventory,
+					registrationForCurrentItem.inputOptions,
+					{
+						itemType: itemStack.typeId,
+						initialItemStack: itemStack,
+						slot,
+						initialSlotIndex: slotIndex,
+						instanceId,
+						restoredState: persisted.state,
+
+						getSlotIndex: () => shared.slotIndex,
+						getCurrentTick: () => shared.currentTick,
+						getUsing: () => shared.isUsing,
+						getUseTicks: () => shared.useTicks,
+						getMaxChargeTicks: () => shared.maxChargeTicks,
+						setMaxChargeTicks: (value) => (shared.maxChargeTicks = Math.max(1, value)),
+						getDeleteOnNextTick: () => shared.deleteOnNextTick,
+						setDeleteOnNextTick: (value) => (shared.deleteOnNextTick = value),
+						getDeleted: () => shared.isDeleted,
+						getTickInterval: () => shared.tickInterval,
+						setTickInterval: (value) => (shared.tickInterval = Math.max(1, Math.floor(value))),
+						getSleeping: () => shared.currentTick < shared.sleepUntilTick,
+						sleep: (ticks) =>
+							(shared.sleepUntilTick =
+								ticks === undefined
+									? Infinity
+									: shared.currentTick + Math.max(0, Math.floor(ticks))),
+						wake: () => (shared.sleepUntilTick = 0),
+						runNextTick: (callback) => this.driver.runNextTick(callback),
+					},
+				);
+
+				// Non-player entities only get registrations with an entity factory (see getRegistration)
+				const newHook = this.isPlayerContext(ctx)
+					? registrationForCurrentItem.factory(ctx)
+					: registrationForCurrentItem.entityFactory!(ctx);
+
+				const newWrapper: HookedItemWrapper = {
+					shared,
+					context: ctx,
+					registration: registrationForCurrentItem,
+					instance: newHook,
+					lastPersistedJson: persisted.json,
+				};
+
+				let wrappers = this.wrappersByEntity.get(entity);
+				if (!wrappers) {
+					wrappers = new Map();
+					this.wrappersByEntity.set(entity, wrappers);
+				}
+
+				wrappers.set(slot, newWrapper);
+				wrapperForThisTick = newWrapper;
+
+				this.registry.events.emit("created", { hook: newHook, entity, slot, itemStack });
+			} catch (error) {
+				console.error(
+					`Error creating hook for item ${itemStack.typeId} in ${slot} for ${this.describeEntity(entity)}: ${error}`,
+				);
+				this.handleHookError(
+					{ entity, itemStack, itemType: itemStack.typeId, slot, phase: "factory", error },
+					registrationForCurrentItem,
+				);
+				return;
+			}
+		}
+
+		// Safe tick execution
+		if (shouldTick && wrapperForThisTick && itemStack) {
+			this.tickInput(wrapperForThisTick);
+
+			const { currentTick, tickInterval, sleepUntilTick } = wrapperForThisTick.shared;
+			const shouldCallOnTick = currentTick >= sleepUntilTick && currentTick % tickInterval === 0;
+
+			try {
+				if (shouldCallOnTick) {
+					wrapperForThisTick.instance.onTick(itemStack);
+				}
+				wrapperForThisTick.shared.currentTick++;
+
+				const { persistInterval } = wrapperForThisTick.registration;
+				const shouldPersist =
+					persistInterval > 0 &&
+					!wrapperForThisTick.shared.isUsing &&
+					wrapperForThisTick.shared.currentTick % persistInterval === 0;
+
+				if (shouldPersist) {
+					this.persistState(wrapperForThisTick);
+				}
+			} catch (error) {
+				console.error(
+					`Error occurred while ticking hooked item (ID: ${itemStack.typeId}) in ${slot} for ${this.describeEntity(entity)}: ${error}`,
+				);
+				this.registry.events.emit("tickError", {
+					hook: wrapperForThisTick.instance,
+					entity,
+					slot,
+					itemStack,
+					error,
+				});
+
+				this.handleHookError(
+					{ entity, itemStack, itemType: itemStack.typeId, slot, phase: "onTick", error },
+					wrapperForThisTick.registration,
+					wrapperForThisTick,
+				);
+			}
+
+			if (wrapperForThisTick.shared.isUsing && !wrapperForThisTick.hasError) {
+				this.tickUse(wrapperForThisTick);
+			}
+		}
+	}
+
+	/**
+	 * Transfers a hook to the newly selected hotbar slot, if its item instance shows up there.
+	 * Items without an instance ID (stackable items) are never followed.
+	 */
+	private followItem(
+		wrapper: HookedItemWrapper,
+		itemStack: mc.ItemStack | undefined,
+		slotIndex: number,
+	): void {
+		const oldIndex = wrapper.shared.slotIndex;
+		if (slotIndex === -1 || oldIndex === slotIndex) return;
+
+		const { instanceId } = wrapper.context;
+		const isSameItem =
+			instanceId !== undefined &&
+			itemStack !== undefined &&
+			getItemInstanceId(itemStack) === instanceId;
+		if (!isSameItem) return;
+
+		wrapper.shared.slotIndex = slotIndex;
+		this.invoke(wrapper, "onSlotChanged", (instance) =>
+			instance.onSlotChanged(oldIndex, slotIndex),
+		);
+	}
+
+	/**
+	 * Samples the input of the player of a hook, and calls the input callbacks for the changes.
+	 */
+	private tickInput(wrapper: HookedItemWrapper): void {
+		const ctx = wrapper.context;
+		if (!this.isPlayerContext(ctx)) return;
+
+		for (const change of ctx.input.update()) {
+			switch (change.type) {
+				case "pressed":
+					this.invoke(wrapper, "onInputPressed", (instance) =>
+						instance.onInputPressed(change.input),
+					);
+					break;
+				case "released":
+					this.invoke(wrapper, "onInputReleased", (instance) =>
+						instance.onInputReleased(change.input, change.heldTicks),
+					);
+					break;
+				case "multiTap":
+					this.invoke(wrapper, "onMultiTap", (instance) =>
+						instance.onMultiTap(change.input, change.tapCount),
+					);
+					break;
+			}
+		}
+	}
+
+	/**
+	 * Advances the use ticks of a hook that is being used, and calls onUseTick.
+	 */
+	private tickUse(wrapper: HookedItemWrapper): void {
+		const { entity, slot, itemType } = wrapper.context;
+
+		try {
+			wrapper.shared.useTicks++;
+			wrapper.instance.onUseTick(wrapper.shared.useTicks);
+		} catch (error) {
+			console.error(`Error in onUseTick (${slot}) for ${this.describeEntity(entity)}: ${error}`);
+			this.handleHookError(
+				{ entity, itemType, slot, phase: "onUseTick", error },
+				wrapper.registration,
+				wrapper,
+			);
+		}
+	}
+
+	/**
+	 * Calls the onError callback of a registration, and applies its error policy.
+	 * Never throws, so that the other hooks are still processed (see {@link queueRethrow}).
+	 */
+	private handleHookError(
+		info: Omit<ItemHookErrorInfo, "player" | "hook">,
+		registration: ItemHookRegistration,
+		wrapper?: HookedItemWrapper,
+	): void {
+		const { entity, error } = info;
+		const { errorPolicy, onError } = registration;
+
+		if (onError) {
+			try {
+				onError({
+					...info,
+					player: this.driver.isPlayer(entity) ? entity : undefined,
+					hook: wrapper?.instance,
+				});
+			} catch (callbackError) {
+				console.error(
+					`Error in onError of item hook for ${describeMatcher(registration.matcher)}: ${callbackError}`,
+				);
+			}
+		}
+
+		if (errorPolicy === "skip") return;
+
+		if (wrapper) {
+			// Mark for deletion to prevent repeated errors
+			wrapper.shared.deleteOnNextTick = true;
+			wrapper.hasError = true;
+		}
+
+		if (typeof errorPolicy === "object") {
+			this.suspend(entity, registration, errorPolicy);
+		}
+
+		if (errorPolicy === "rethrow") this.queueRethrow(error);
+	}
+
+	/**
+	 * Throws an error out of the engine on the next tick, together with the other errors
+	 * queued until then (as an `AggregateError` when there are several).
+	 */
+	private queueRethrow(error: unknown): void {
+		this.pendingRethrows.push(error);
+		if (this.pendingRethrows.length > 1) return;
+
+		this.driver.runNextTick(() => {
+			const errors = this.pendingRethrows;
+			this.pendingRethrows = [];
+
+			if (errors.length === 1) throw errors[0];
+			throw new AggregateError(errors, `${errors.length} item hooks threw an error.`);
+		});
+	}
+
+	/**
+	 * Keeps a registration from creating hooks for an entity, for as long as the error policy says.
+	 */
+	private suspend(
+		entity: mc.Entity,
+		registration: ItemHookRegistration,
+		policy: Extract<ItemHookErrorPolicy, object>,
+	): void {
+		let suspensions = this.suspensions.get(entity);
+		if (!suspensions) {
+			suspensions = new Map();
+			this.suspensions.set(entity, suspensions);
+		}
+
+		const errorStreak = (suspensions.get(registration)?.errorStreak ?? 0) + 1;
+		const ticks =
+			policy.type === "blacklist"
+				? policy.ticks
+				: Math.min(
+						policy.initialTicks * (policy.multiplier ?? 2) ** (errorStreak - 1),
+						policy.maxTicks ?? 1200,
+					);
+
+		suspensions.set(registration, {
+			untilTick: this.engineTick + Math.max(0, Math.floor(ticks)),
+			errorStreak,
+		});
+	}
+
+	private isSuspended(entity: mc.Entity, registration: ItemHookRegistration): boolean {
+		const suspension = this.suspensions.get(entity)?.get(registration);
+		return suspension !== undefined && this.engineTick < suspension.untilTick;
+	}
+
+	/**
+	 * Deletes the HookedItemWrapper in a slot of an entity and calls onDelete.
+	 * Pass `canPersist = false` when called from a read-only context, where the state cannot be saved.
+	 */
+	private deleteWrapper(
+		entity: mc.Entity,
+		slot: mc.EquipmentSlot,
+		reason: ItemHookDeleteReason,
+		wrapper?: HookedItemWrapper,
+		canPersist = true,
+	): void {
+		const wrappers = this.wrappersByEntity.get(entity);
+
+		if (!wrapper) {
+			wrapper = wrappers?.get(slot);
+		}
+
+		if (wrapper) {
+			wrapper.shared.isDeleted = true;
+			wrappers?.delete(slot);
+			if (wrappers && wrappers.size <= 0) {
+				this.wrappersByEntity.delete(entity);
+			}
+
+			// Without an instance ID, the slot may already hold another item of the same type
+			if (canPersist && entity.isValid && wrapper.context.instanceId !== undefined) {
+				this.persistState(wrapper);
+			}
+
+			// The hook lived until a regular deletion, so the backoff starts over
+			if (reason !== "error") {
+				this.suspensions.get(entity)?.delete(wrapper.registration);
+			}
+
+			try {
+				wrapper.instance.onDelete?.();
+			} catch (error) {
+				console.error(`Error in onDelete (${slot}) for ${this.describeEntity(entity)}: ${error}`);
+				this.handleHookError(
+					{ entity, itemType: wrapper.context.itemType, slot, phase: "onDelete", error },
+					wrapper.registration,
+					wrapper,
+				);
+			}
+
+			this.registry.events.emit("deleted", { hook: wrapper.instance, entity, slot, reason });
+		}
+	}
+
+	/**
+	 * Deletes all HookedItemWrappers of an entity.
+	 */
+	private deleteAllWrappers(
+		entity: mc.Entity,
+		reason: ItemHookDeleteReason,
+		canPersist = true,
+	): void {
+		const wrappers = this.wrappersByEntity.get(entity);
+		if (!wrappers) return;
+
+		for (const slot of [...wrappers.keys()]) {
+			this.deleteWrapper(entity, slot, reason, undefined, canPersist);
+		}
+
+		this.wrappersByEntity.delete(entity);
+	}
+
+	/**
+	 * Calls `callback` for a wrapper, and handles errors thrown by it.
+	 * Pass `wakes = true` for use, hit and hurt events, which wake up a sleeping hook.
+	 */
+	private invoke(
+		wrapper: HookedItemWrapper,
+		phase: keyof HookedItemEvents,
+		callback: (instance: EntityHookedItem) => void,
+		wakes = false,
+	): void {
+		const { entity, slot, itemType } = wrapper.context;
+
+		if (wakes) wrapper.shared.sleepUntilTick = 0;
+
+		try {
+			callback(wrapper.instance);
+		} catch (error) {
+			console.error(`Error in ${phase} (${slot}) for ${this.describeEntity(entity)}: ${error}`);
+			this.handleHookError({ entity, itemType, slot, phase, error }, wrapper.registration, wrapper);
+		}
+	}
+
+	/**
+	 * Calls `callback` for every active wrapper of an entity, and handles errors thrown by it.
+	 */
+	private dispatch(
+		entity: mc.Entity,
+		phase: keyof HookedItemEvents,
+		callback: (instance: EntityHookedItem) => void,
+		wakes = false,
+	): void {
+		const wrappers = this.wrappersByEntity.get(entity);
+		if (!wrappers) return;
+
+		for (const wrapper of [...wrappers.values()]) {
+			this.invoke(wrapper, phase, callback, wakes);
+		}
+	}
+
+	/**
+	 * Calls `callback` for the wrapper that should receive an item use event, and handles errors thrown by it.
+	 * Wakes up the hook if it is sleeping.
+	 */
+	private dispatchUse(
+		player: mc.Player,
+		itemType: string | undefined,
+		phase: keyof HookedItemEvents,
+		callback: (instance: EntityHookedItem) => void,
+	): void {
+		const wrapper = this.getWrapperForUseEvent(player, itemType);
+		if (!wrapper) return;
+
+		this.invoke(wrapper, phase, callback, true);
+	}
+
+	/**
+	 * Deletes the hooks of a leaving player.
+	 * Before events are read-only, so the state cannot be saved here (see persistInterval).
+	 */
+	handlePlayerLeave(player: mc.Player): void {
+		this.deleteAllWrappers(player, "leave", false);
+	}
+
+	/**
+	 * Deletes the hooks of an entity that is being removed. Runs in a read-only context.
+	 */
+	handleEntityRemove(entity: mc.Entity): void {
+		this.deleteAllWrappers(entity, "entityRemove", false);
+	}
+
+	/**
+	 * Deletes all hooks. Runs in a read-only context.
+	 */
+	handleShutdown(): void {
+		const entitiesToCleanup = Array.from(this.wrappersByEntity.keys());
+		for (const entity of entitiesToCleanup) {
+			this.deleteAllWrappers(entity, "shutdown", false);
+		}
+	}
+
+	handleItemStartUse(e: mc.ItemStartUseAfterEvent): void {
+		if (!e.source || !e.itemStack) return;
+
+		const wrapper = this.getWrapperForUseEvent(e.source, e.itemStack.typeId);
+		if (!wrapper) return;
+
+		if (wrapper.shared.isUsing) return;
+
+		wrapper.shared.sleepUntilTick = 0;
+
+		let phase: keyof HookedItemEvents = "canUse";
+
+		try {
+			if (!wrapper.instance.canUse(e)) return;
+
+			phase = "onStartUse";
+			wrapper.shared.isUsing = true;
+			wrapper.shared.useTicks = 0;
+			wrapper.instance.onStartUse(e);
+
+			this.registry.events.emit("startUse", {
+				hook: wrapper.instance,
+				entity: e.source,
+				slot: wrapper.context.slot,
+				event: e,
+			});
+		} catch (error) {
+			console.error(`Error in ${phase} for player ${e.source.name}: ${error}`);
+			wrapper.shared.isUsing = false;
+
+			const { slot, itemType } = wrapper.context;
+			this.handleHookError(
+				{ entity: e.source, itemStack: e.itemStack, itemType, slot, phase, error },
+				wrapper.registration,
+				wrapper,
+			);
+		}
+	}
+
+	handleItemStopUse(e: mc.ItemStopUseAfterEvent): void {
+		if (!e.source) return;
+
+		const wrapper = this.getWrapperForUseEvent(e.source, e.itemStack?.typeId);
+		if (!wrapper) return;
+
+		if (!wrapper.shared.isUsing) return;
+
+		wrapper.shared.sleepUntilTick = 0;
+
+		try {
+			wrapper.shared.isUsing = false;
+			wrapper.instance.onStopUse(e, wrapper.instance.charge);
+
+			this.registry.events.emit("stopUse", {
+				hook: wrapper.instance,
+				entity: e.source,
+				slot: wrapper.context.slot,
+				event: e,
+			});
+		} catch (error) {
+			console.error(`Error in onStopUse for player ${e.source.name}: ${error}`);
+			wrapper.shared.isUsing = false;
+
+			const { slot, itemType } = wrapper.context;
+			this.handleHookError(
+				{ entity: e.source, itemStack: e.itemStack, itemType, slot, phase: "onStopUse", error },
+				wrapper.registration,
+				wrapper,
+			);
+		}
+	}
+
+	handleItemUse(e: mc.ItemUseAfterEvent): void {
+		this.dispatchUse(e.source, e.itemStack.typeId, "onUse", (instance) => instance.onUse(e));
+	}
+
+	handleItemCompleteUse(e: mc.ItemCompleteUseAfterEvent): void {
+		this.dispatchUse(e.source, e.itemStack.typeId, "onCompleteUse", (instance) =>
+			instance.onCompleteUse(e),
+		);
+	}
+
+	handleItemReleaseUse(e: mc.ItemReleaseUseAfterEvent): void {
+		this.dispatchUse(e.source, e.itemStack?.typeId, "onReleaseUse", (instance) =>
+			instance.onReleaseUse(e),
+		);
+	}
+
+	handleEntityHitEntity(e: mc.EntityHitEntityAfterEvent): void {
+		this.dispatch(e.damagingEntity, "onHitEntity", (instance) => instance.onHitEntity(e), true);
+	}
+
+	handleEntityHitBlock(e: mc.EntityHitBlockAfterEvent): void {
+		this.dispatch(e.damagingEntity, "onHitBlock", (instance) => instance.onHitBlock(e), true);
+	}
+
+	handlePlayerBreakBlock(e: mc.PlayerBreakBlockAfterEvent): void {
+		if (!e.player) return;
+		this.dispatch(e.player, "onBreakBlock", (instance) => instance.onBreakBlock(e));
+	}
+
+	handleEntityHurt(e: mc.EntityHurtAfterEvent): void {
+		this.dispatch(e.hurtEntity, "onHurt", (instance) => instance.onHurt(e), true);
+	}
+
+	handlePlayerInteractWithBlock(e: mc.PlayerInteractWithBlockAfterEvent): void {
+		this.dispatch(e.player, "onInteractWithBlock", (instance) => instance.onInteractWithBlock(e));
+	}
+
+	handlePlayerInteractWithEntity(e: mc.PlayerInteractWithEntityAfterEvent): void {
+		this.dispatch(e.player, "onInteractWithEntity", (instance) => instance.onInteractWithEntity(e));
+	}
+
+	handleProjectileHitEntity(e: mc.ProjectileHitEntityAfterEvent): void {
+		if (!e.source) return;
+		this.dispatch(e.source, "onProjectileHitEntity", (instance) =>
+			instance.onProjectileHitEntity(e),
+		);
+	}
+
+	handleProjectileHitBlock(e: mc.ProjectileHitBlockAfterEvent): void {
+		if (!e.source) return;
+		this.dispatch(e.source, "onProjectileHitBlock", (instance) => instance.onProjectileHitBlock(e));
+	}
+
+	handleBeforeItemUse(e: mc.ItemUseBeforeEvent): void {
+		this.dispatchUse(e.source, e.itemStack.typeId, "onBeforeUse", (instance) =>
+			instance.onBeforeUse(e),
+		);
+	}
+
+	handleBeforePlayerBreakBlock(e: mc.PlayerBreakBlockBeforeEvent): void {
+		this.dispatch(e.player, "onBeforeBreakBlock", (instance) => instance.onBeforeBreakBlock(e));
+	}
+
+	handleBeforePlayerInteractWithBlock(e: mc.PlayerInteractWithBlockBeforeEvent): void {
+		this.dispatch(e.player, "onBeforeInteractWithBlock", (instance) =>
+			instance.onBeforeInteractWithBlock(e),
+		);
+	}
+
+	handleBeforePlayerInteractWithEntity(e: mc.PlayerInteractWithEntityBeforeEvent): void {
+		this.dispatch(e.player, "onBeforeInteractWithEntity", (instance) =>
+			instance.onBeforeInteractWithEntity(e),
+		);
+	}
+}
@@ -0,0 +1,412 @@
+// In-memory fakes for running an ItemHookEngine outside of the game, e.g. in Node tests.
+// Only the parts of the `@minecraft/server` API that the engine uses are implemented.
+// Exported from `testing.ts` only, so that they do not ship with the in-game entry point.
+import type * as mc from "@minecraft/server";
+import type { ItemHookDriver, ItemHookEngine } from "./item-hook-engine.js";
+
+/**
+ * In-memory item stack. Use {@link FakeItemStack.asItemStack} to pass it where an `ItemStack` is expected.
+ */
+export class FakeItemStack {
+	amount: number;
+	readonly maxAmount: number;
+	/** Durability damage. Only used when `maxDurability` is set. */
+	damage = 0;
+	readonly maxDurability?: number;
+	private readonly tags: Set<string>;
+	private readonly dynamicProperties = new Map<string, string | number | boolean | mc.Vector3>();
+
+	constructor(
+		readonly typeId: string,
+		options?: {
+			amount?: number;
+			maxAmount?: number;
+			maxDurability?: number;
+			tags?: readonly string[];
+		},
+	) {
+		this.amount = options?.amount ?? 1;
+		this.maxAmount = options?.maxAmount ?? 1;
+		this.maxDurability = options?.maxDurability;
+		this.tags = new Set(options?.tags);
+	}
+
+	get isStackable(): boolean {
+		return this.maxAmount > 1;
+	}
+
+	hasTag(tag: string): boolean {
+		return this.tags.has(tag);
+	}
+
+	getTags(): string[] {
+		return [...this.tags];
+	}
+
+	getComponent(componentId: string): unknown {
+		if (componentId !== "durability" && componentId !== "minecraft:durability") return undefined;
+		if (this.maxDurability === undefined) return undefined;
+
+		const itemStack = this;
+		return {
+			get damage() {
+				return itemStack.damage;
+			},
+			set damage(value: number) {
+				itemStack.damage = value;
+			},
+			maxDurability: this.maxDurability,
+		};
+	}
+
+	getDynamicProperty(identifier: string): string | number | boolean | mc.Vector3 | undefined {
+		return this.dynamicProperties.get(identifier);
+	}
+
+	setDynamicProperty(identifier: string, value?: string | number | boolean | mc.Vector3): void {
+		if (this.isStackable) {
+			throw new Error(`Dynamic properties cannot be set on stackable item ${this.typeId}.`);
+		}
+
+		if (value === undefined) {
+			this.dynamicProperties.delete(identifier);
+		} else {
+			this.dynamicProperties.set(identifier, value);
+		}
+	}
+
+	clone(): FakeItemStack {
+		const copy = new FakeItemStack(this.typeId, {
+			amount: this.amount,
+			maxAmount: this.maxAmount,
+			maxDurability: this.maxDurability,
+			tags: [...this.tags],
+		});
+		copy.damage = this.damage;
+
+		for (const [identifier, value] of this.dynamicProperties) {
+			copy.dynamicProperties.set(identifier, value);
+		}
+
+		return copy;
+	}
+
+	asItemStack(): mc.ItemStack {
+		return this as unknown as mc.ItemStack;
+	}
+}
+
+/**
+ * Creates a container slot that reads and writes an item through the given accessors.
+ * Like in the game, `getItem()` returns a copy, while dynamic properties are written to the item in the slot.
+ */
+const createFakeContainerSlot = (
+	get: () => FakeItemStack | undefined,
+	set: (item: FakeItemStack | undefined) => void,
+): mc.ContainerSlot => {
+	const getItemOrThrow = (): FakeItemStack => {
+		const item = get();
+		if (!item) throw new Error("Container slot is empty.");
+		return item;
+	};
+
+	const slot = {
+		get typeId() {
+			return getItemOrThrow().typeId;
+		},
+		get amount() {
+			return getItemOrThrow().amount;
+		},
+		get isStackable() {
+			return getItemOrThrow().isStackable;
+		},
+		hasItem: () => get() !== undefined,
+		getItem: () => get()?.clone().asItemStack(),
+		setItem: (itemStack?: mc.ItemStack) => set((itemStack as FakeItemStack | undefined)?.clone()),
+		hasTag: (tag: string) => getItemOrThrow().hasTag(tag),
+		getDynamicProperty: (identifier: string) => getItemOrThrow().getDynamicProperty(identifier),
+		setDynamicProperty: (identifier: string, value?: string | number | boolean | mc.Vector3) =>
+			getItemOrThrow().setDynamicProperty(identifier, value),
+		isValid: true,
+	};
+
+	return slot as unknown as mc.ContainerSlot;
+};
+
+/**
+ * In-memory container with a fixed number of slots.
+ */
+export class FakeContainer {
+	private readonly items: (FakeItemStack | undefined)[];
+
+	constructor(readonly size = 36) {
+		this.items = new Array<FakeItemStack | undefined>(size).fill(undefined);
+	}
+
+	get emptySlotsCount(): number {
+		return this.items.filter((item) => item === undefined).length;
+	}
+
+	getItem(slot: number): mc.ItemStack | undefined {
+		return this.items[slot]?.clone().asItemStack();
+	}
+
+	setItem(slot: number, itemStack?: mc.ItemStack | FakeItemStack): void {
+		this.checkSlot(slot);
+		this.items[slot] = (itemStack as FakeItemStack | undefined)?.clone();
+	}
+
+	getSlot(slot: number): mc.ContainerSlot {
+		this.checkSlot(slot);
+		return createFakeContainerSlot(
+			() => this.items[slot],
+			(item) => (this.items[slot] = item),
+		);
+	}
+
+	/** Gets the item in a slot without copying it. */
+	peekItem(slot: number): FakeItemStack | undefined {
+		return this.items[slot];
+	}
+
+	private checkSlot(slot: number): void {
+		if (slot < 0 || slot >= this.size) {
+			throw new RangeError(`Slot ${slot} is out of range (size: ${this.size}).`);
+		}
+	}
+}
+
+/**
+ * In-memory non-player entity with health, equipment and type families.
+ */
+export class FakeEntity {
+	private static idCounter = 0;
+
+	readonly id = `${++FakeEntity.idCounter}`;
+	isValid = true;
+	readonly health = { currentValue: 20, effectiveMax: 20 };
+	readonly families: Set<string>;
+
+	private readonly equipment = new Map<mc.EquipmentSlot, FakeItemStack>();
+
+	constructor(
+		readonly typeId: string,
+		families: readonly string[] = [],
+	) {
+		this.families = new Set(families);
+	}
+
+	/** Gets the item in an equipment slot without copying it. */
+	peekEquipment(slot: mc.EquipmentSlot): FakeItemStack | undefined {
+		return this.equipment.get(slot);
+	}
+
+	setEquipment(slot: mc.EquipmentSlot, itemStack?: FakeItemStack): void {
+		if (itemStack) {
+			this.equipment.set(slot, itemStack.clone());
+		} else {
+			this.equipment.delete(slot);
+		}
+	}
+
+	getComponent(componentId: string): unknown {
+		switch (componentId) {
+			case "health":
+			case "minecraft:health":
+				return this.health;
+			case "equippable":
+			case "minecraft:equippable":
+				return {
+					getEquipmentSlot: (slot: mc.EquipmentSlot) =>
+						createFakeContainerSlot(
+							() => this.peekEquipment(slot),
+							(item) => this.setEquipment(slot, item),
+						),
+					getEquipment: (slot: mc.EquipmentSlot) => this.peekEquipment(slot)?.clone().asItemStack(),
+					setEquipment: (slot: mc.EquipmentSlot, itemStack?: mc.ItemStack) =>
+						this.setEquipment(slot, itemStack as FakeItemStack | undefined),
+				};
+			case "type_family":
+			case "minecraft:type_family":
+				return {
+					hasTypeFamily: (family: string) => this.families.has(family),
+					getTypeFamilies: () => [...this.families],
+				};
+			default:
+				return undefined;
+		}
+	}
+
+	kill(): void {
+		this.health.currentValue = 0;
+	}
+
+	asEntity(): mc.Entity {
+		return this as unknown as mc.Entity;
+	}
+}
+
+/**
+ * In-memory player. The mainhand slot is the selected hotbar slot of the inventory.
+ */
+export class FakePlayer extends FakeEntity {
+	selectedSlotIndex = 0;
+	isSneaking = false;
+	isJumping = false;
+	isSprinting = false;
+	gameMode = "Survival" as mc.GameMode;
+	readonly container = new FakeContainer(36);
+
+	constructor(readonly name = "Player") {
+		super("minecraft:player", ["player"]);
+	}
+
+	override peekEquipment(slot: mc.EquipmentSlot): FakeItemStack | undefined {
+		if (slot === "Mainhand") return this.container.peekItem(this.selectedSlotIndex);
+		return super.peekEquipment(slot);
+	}
+
+	override setEquipment(slot: mc.EquipmentSlot, itemStack?: FakeItemStack): void {
+		if (slot === "Mainhand") {
+			this.container.setItem(this.selectedSlotIndex, itemStack);
+		} else {
+			super.setEquipment(slot, itemStack);
+		}
+	}
+
+	override getComponent(componentId: string): unknown {
+		if (componentId === "inventory" || componentId === "minecraft:inventory") {
+			return { container: this.container };
+		}
+
+		return super.getComponent(componentId);
+	}
+
+	getGameMode(): mc.GameMode {
+		return this.gameMode;
+	}
+
+	asPlayer(): mc.Player {
+		return this as unknown as mc.Player;
+	}
+}
+
+/**
+ * In-memory {@link ItemHookDriver}. Ticks only advance when {@link FakeItemHookDriver.tick} is called.
+ *
+ * @example
+ * ```typescript
+ * const driver = new FakeItemHookDriver();
+ * const engine = new ItemHookEngine(driver);
+ * engine.registry.register("lc:pistol", (ctx) => new Pistol(ctx));
+ *
+ * const player = driver.addPlayer();
+ * player.container.setItem(0, new FakeItemStack("lc:pistol"));
+ * driver.tick(); // Creates the hook
+ *
+ * player.selectedSlotIndex = 1;
+ * driver.tick(); // Deletes the hook
+ * ```
+ */
+export class FakeItemHookDriver implements ItemHookDriver {
+	readonly players: FakePlayer[] = [];
+	readonly entities: FakeEntity[] = [];
+
+	private connectedEngine?: ItemHookEngine;
+	private nextTickCallbacks: (() => void)[] = [];
+
+	/** Number of times {@link tick} has been called. */
+	currentTick = 0;
+
+	/**
+	 * The engine that is connected to this driver.
+	 * Use it to send events, e.g. `driver.engine.handleItemStartUse(...)`.
+	 * @throws {Error} When no engine is connected yet.
+	 */
+	get engine(): ItemHookEngine {
+		if (!this.connectedEngine) throw new Error("No item hook engine is connected to this driver.");
+		return this.connectedEngine;
+	}
+
+	connect(engine: ItemHookEngine): void {
+		if (this.connectedEngine) throw new Error("An item hook engine is already connected.");
+		this.connectedEngine = engine;
+	}
+
+	getPlayers(): readonly mc.Player[] {
+		return this.players.filter((player) => player.isValid) as unknown as mc.Player[];
+	}
+
+	getEntities(types: ReadonlySet<string>, families: ReadonlySet<string>): Iterable<mc.Entity> {
+		return this.entities.filter(
+			(entity) =>
+				entity.isValid &&
+				(types.has(entity.typeId) || [...entity.families].some((family) => families.has(family))),
+		) as unknown as mc.Entity[];
+	}
+
+	isPlayer(entity: mc.Entity): entity is mc.Player {
+		return (entity as unknown) instanceof FakePlayer;
+	}
+
+	runNextTick(callback: () => void): void {
+		this.nextTickCallbacks.push(callback);
+	}
+
+	addPlayer(name?: string): FakePlayer {
+		const player = new FakePlayer(name);
+		this.players.push(player);
+		return player;
+	}
+
+	addEntity(typeId: string, families?: readonly string[]): FakeEntity {
+		const entity = new FakeEntity(typeId, families);
+		this.entities.push(entity);
+		return entity;
+	}
+
+	/**
+	 * Removes a player or an entity, and sends the matching leave or remove event to the engine.
+	 */
+	remove(entity: FakeEntity): void {
+		if (entity instanceof FakePlayer) {
+			this.engine.handlePlayerLeave(entity.asPlayer());
+			this.players.splice(this.players.indexOf(entity), 1);
+		} else {
+			this.engine.handleEntityRemove(entity.asEntity());
+			this.entities.splice(this.entities.indexOf(entity), 1);
+		}
+
+		entity.isValid = false;
+	}
+
+	/**
+	 * Advances the given number of ticks.
+	 * Each tick runs the callbacks scheduled with {@link runNextTick}, then ticks the engine.
+	 *
+	 * @throws The error of a scheduled callback (or an `AggregateError` of several), after the engine
+	 * was ticked. Like with `system.run`, a failing callback does not keep the rest of the tick from running.
+	 */
+	tick(count = 1): void {
+		for (let i = 0; i < count; i++) {
+			const callbacks = this.nextTickCallbacks;
+			this.nextTickCallbacks = [];
+
+			const errors: unknown[] = [];
+			for (const callback of callbacks) {
+				try {
+					callback();
+				} catch (error) {
+					errors.push(error);
+				}
+			}
+
+			this.engine.tick();
+			this.currentTick++;
+
+			if (errors.length === 1) throw errors[0];
+			if (errors.length > 1)
+				throw new AggregateError(errors, `${errors.length} callbacks threw an error.`);
+		}
+	}
+}
@@ -0,0 +1,90 @@
+import * as mc from "@minecraft/server";
+import { ItemHookEngine, type ItemHookDriver } from "./item-hook-engine.js";
+import { ItemHookRegistry } from "./item-hook.js";
+
+const DIMENSION_IDS = ["overworld", "nether", "the_end"] as const;
+
+/**
+ * Creates an {@link ItemHookDriver} that is backed by `world` and `system` of `@minecraft/server`.
+ */
+export const createWorldItemHookDriver = (): ItemHookDriver => ({
+	connect(engine) {
+		// Call engine.tick() every tick
+		mc.world.afterEvents.worldLoad.subscribe(() => {
+			mc.system.runInterval(() => engine.tick(), 1);
+		});
+
+		mc.world.beforeEvents.playerLeave.subscribe(({ player }) => engine.handlePlayerLeave(player));
+		mc.world.beforeEvents.entityRemove.subscribe(({ removedEntity }) =>
+			engine.handleEntityRemove(removedEntity),
+		);
+		mc.system.beforeEvents.shutdown.subscribe(() => engine.handleShutdown());
+
+		mc.world.afterEvents.itemStartUse.subscribe((e) => engine.handleItemStartUse(e));
+		mc.world.afterEvents.itemStopUse.subscribe((e) => engine.handleItemStopUse(e));
+		mc.world.afterEvents.entityHitEntity.subscribe((e) => engine.handleEntityHitEntity(e));
+		mc.world.afterEvents.entityHitBlock.subscribe((e) => engine.handleEntityHitBlock(e));
+		mc.world.afterEvents.playerBreakBlock.subscribe((e) => engine.handlePlayerBreakBlock(e));
+		mc.world.afterEvents.entityHurt.subscribe((e) => engine.handleEntityHurt(e));
+		mc.world.afterEvents.itemUse.subscribe((e) => engine.handleItemUse(e));
+		mc.world.afterEvents.itemCompleteUse.subscribe((e) => engine.handleItemCompleteUse(e));
+		mc.world.afterEvents.itemReleaseUse.subscribe((e) => engine.handleItemReleaseUse(e));
+		mc.world.afterEvents.playerInteractWithBlock.subscribe((e) =>
+			engine.handlePlayerInteractWithBlock(e),
+		);
+		mc.world.afterEvents.playerInteractWithEntity.subscribe((e) =>
+			engine.handlePlayerInteractWithEntity(e),
+		);
+		mc.world.afterEvents.projectileHitEntity.subscribe((e) => engine.handleProjectileHitEntity(e));
+		mc.world.afterEvents.projectileHitBlock.subscribe((e) => engine.handleProjectileHitBlock(e));
+
+		mc.world.beforeEvents.itemUse.subscribe((e) => engine.handleBeforeItemUse(e));
+		mc.world.beforeEvents.playerBreakBlock.subscribe((e) => engine.handleBeforePlayerBreakBlock(e));
+		mc.world.beforeEvents.playerInteractWithBlock.subscribe((e) =>
+			engine.handleBeforePlayerInteractWithBlock(e),
+		);
+		mc.world.beforeEvents.playerInteractWithEntity.subscribe((e) =>
+			engine.handleBeforePlayerInteractWithEntity(e),
+		);
+	},
+
+	getPlayers() {
+		return mc.world.getPlayers();
+	},
+
+	getEntities(types, families) {
+		const entities = new Set<mc.Entity>();
+
+		for (const dimensionId of DIMENSION_IDS) {
+			const dimension = mc.world.getDimension(dimensionId);
+
+			for (const type of types) {
+				for (const entity of dimension.getEntities({ type })) {
+					entities.add(entity);
+				}
+			}
+
+			for (const family of families) {
+				for (const entity of dimension.getEntities({ families: [family] })) {
+					if (entity instanceof mc.Player) continue;
+					entities.add(entity);
+				}
+			}
+		}
+
+		return entities;
+	},
+
+	isPlayer(entity): entity is mc.Player {
+		return entity instanceof mc.Player;
+	},
+
+	runNextTick(callback) {
+		mc.system.run(callback);
+	},
+});
+
+/**
+ * Engine that runs the hooks of {@link ItemHookRegistry} in the world.
+ */
+export const mainItemHookEngine = new ItemHookEngine(createWorldItemHookDriver(), ItemHookRegistry);
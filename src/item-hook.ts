@@ -1,106 +1,420 @@
-import * as mc from "@minecraft/server";
-import { console } from "./index.js";
+import type * as mc from "@minecraft/server";
+import * as console from "./console.js";
+import { findContainerSlot, forEachItemStack } from "./container.js";
+import { clamp } from "./math.js";
+import type { PlayerInput, PlayerInputTracker, PlayerInputTrackerOptions } from "./player-input.js";
+import { isCreativeOrSpectator } from "./player.js";
+import type { EventEmitter } from "./event-emitter.js";
+import { createItemHookRegistry } from "./item-hook-engine.js";
 
 /**
- * Context provided to hooked item factories for per-player, per-item state and utilities.
+ * Context provided to hooked item factories for per-entity, per-item state and utilities.
+ * This is the part of the context that is available for both players and non-player entities.
  */
-export interface HookedItemContext {
-	readonly player: mc.Player;
-	readonly playerEquippable: mc.EntityEquippableComponent;
-	readonly playerHealth: mc.EntityHealthComponent;
-	readonly playerInventory: mc.EntityInventoryComponent;
+export interface EntityHookedItemContext {
+	readonly entity: mc.Entity;
+	readonly equippable: mc.EntityEquippableComponent;
+	readonly health: mc.EntityHealthComponent;
 	readonly itemType: string;
 	readonly initialItemStack: mc.ItemStack;
+	/** The equipment slot the hooked item is in. */
+	readonly slot: mc.EquipmentSlot;
+	/**
+	 * The selected hotbar slot index when the hook was created.
+	 * `-1` for slots other than the mainhand, and for non-player entities.
+	 */
 	readonly initialSlotIndex: number;
-
+	/**
+	 * Stable ID stamped on the item instance.
+	 * Only set when the hook was registered with `identity: "instance"` and the item is not stackable.
+	 */
+	readonly instanceId?: string;
+	/**
+	 * State previously returned by {@link HookedItem.serializeState} and saved on this item,
+	 * or `undefined` if nothing was saved.
+	 */
+	readonly restoredState?: unknown;
+
+	/** Gets the hotbar slot index the item is currently in. Differs from `initialSlotIndex` after the item was followed. */
+	getSlotIndex: () => number;
 	getCurrentTick: () => number;
 	getUsing: () => boolean;
+	getUseTicks: () => number;
+	getMaxChargeTicks: () => number;
+	setMaxChargeTicks: (value: number) => void;
 	getDeleteOnNextTick: () => boolean;
 	setDeleteOnNextTick: (value: boolean) => void;
+	getDeleted: () => boolean;
+	getTickInterval: () => number;
+	setTickInterval: (value: number) => void;
+	getSleeping: () => boolean;
+	sleep: (ticks?: number) => void;
+	wake: () => void;
+	/** Runs a callback on the next tick. Used by {@link EntityHookedItem.defer}. */
+	runNextTick: (callback: () => void) => void;
+}
+
+/**
+ * Context provided to hooked item factories for per-player, per-item state and utilities.
+ */
+export interface HookedItemContext extends EntityHookedItemContext {
+	readonly player: mc.Player;
+	readonly playerEquippable: mc.EntityEquippableComponent;
+	readonly playerHealth: mc.EntityHealthComponent;
+	readonly playerInventory: mc.EntityInventoryComponent;
+	/** Sneak, jump and sprint state of the player, sampled every tick before `onTick`. */
+	readonly input: PlayerInputTracker;
 }
 
 /**
  * Factory function type for creating HookedItem instances.
  */
-type HookedItemFactory = (args: HookedItemContext) => HookedItem;
+export type HookedItemFactory = (args: HookedItemContext) => HookedItem;
+
+/**
+ * Factory function type for creating EntityHookedItem instances, for both players and non-player entities.
+ */
+export type EntityHookedItemFactory = (args: EntityHookedItemContext) => EntityHookedItem;
+
+/**
+ * Describes which items an item hook applies to.
+ *
+ * - `string` without `*`: Exact item type ID, e.g. `"lc:pistol"`. (Fastest lookup)
+ * - `string` with `*`: Item type ID glob, e.g. `"lc:gun_*"`. `*` matches any sequence of characters.
+ * - `{ tag }`: Any item that has the given item tag, e.g. `{ tag: "minecraft:is_sword" }`.
+ * - `function`: A predicate that receives the item stack.
+ *
+ * When several matchers apply to an item, an exact type ID always wins.
+ * Otherwise the matcher with the highest {@link ItemHookRegisterOptions.priority} is used,
+ * and ties are broken by registration order (earlier first).
+ */
+export type ItemHookMatcher =
+	string | { readonly tag: string } | ((itemStack: mc.ItemStack) => boolean);
+
+/**
+ * Options for registering an item hook.
+ */
+export interface ItemHookRegisterOptions {
+	/**
+	 * Equipment slots in which the hook is active.
+	 * Defaults to `[EquipmentSlot.Mainhand]`.
+	 */
+	slots?: readonly mc.EquipmentSlot[];
+	/**
+	 * Priority used when several non-exact matchers apply to the same item (higher wins).
+	 * Has no effect on exact type ID matchers. Defaults to `0`.
+	 */
+	priority?: number;
+	/**
+	 * How the hook decides whether the item in the slot is still the same item.
+	 *
+	 * - `"type"`: Items with the same type ID are considered the same. (Default)
+	 * - `"instance"`: A stable ID is stamped on the item via a dynamic property, and a different
+	 *   item instance of the same type is treated as a new hook. Only works for non-stackable items,
+	 *   stackable items fall back to `"type"`.
+	 */
+	identity?: ItemHookIdentityMode;
+	/**
+	 * Interval in ticks at which the state returned by {@link HookedItem.serializeState} is saved
+	 * on the item while the hook is active. Saving is skipped while the item is being used, and
+	 * when the state has not changed since the last save. Defaults to `100`.
+	 *
+	 * With `identity: "instance"`, state is also saved when the hook is deleted, except when the
+	 * deletion happens in a read-only context (player leave, shutdown). Periodic saves cover those
+	 * cases. Set to `0` to only save on deletion.
+	 *
+	 * With `identity: "type"`, the slot may already hold another item of the same type when the
+	 * hook is deleted, so state is only saved periodically.
+	 */
+	persistInterval?: number;
+	/**
+	 * Interval in ticks at which `onTick` is called. Defaults to `1` (every tick).
+	 * Can be changed per hook with {@link EntityHookedItem.tickInterval}.
+	 *
+	 * Only `onTick` is throttled. Slot changes and deletion are still checked every tick,
+	 * and {@link EntityHookedItem.currentTick} still counts every tick.
+	 */
+	tickInterval?: number;
+	/**
+	 * Number of use ticks after which {@link EntityHookedItem.charge} reaches `1`. Defaults to `20`.
+	 * Can be changed per hook with {@link EntityHookedItem.maxChargeTicks}.
+	 */
+	maxChargeTicks?: number;
+	/**
+	 * Whether the hook of a mainhand item follows the item to another hotbar slot.
+	 * When the player selects another slot and the item shows up there, the hook is kept
+	 * (and {@link EntityHookedItem.onSlotChanged} is called) instead of being deleted and created again.
+	 * Defaults to `false`.
+	 *
+	 * The item is recognized by its instance ID, so this requires {@link identity} `"instance"`,
+	 * which is also the default when `followItem` is set. Stackable items are never followed.
+	 *
+	 * @throws {Error} From `register()`, when combined with identity `"type"`.
+	 */
+	followItem?: boolean;
+	/** Options for the {@link HookedItem.input} tracker, such as the multi-tap interval. */
+	input?: PlayerInputTrackerOptions;
+	/**
+	 * What happens when a callback of the hook (or its factory) throws an error.
+	 * Defaults to `"delete"`. See {@link ItemHookErrorPolicy}.
+	 */
+	errorPolicy?: ItemHookErrorPolicy;
+	/**
+	 * Called when a callback of the hook (or its factory) throws an error, before the error policy is applied.
+	 */
+	onError?: (info: ItemHookErrorInfo) => void;
+}
+
+/**
+ * Error policy of an item hook.
+ *
+ * - `"delete"`: The hook is deleted on the next tick, and created again on the tick after
+ *   if the item is still held. (Default)
+ * - `"skip"`: The hook keeps running. Only the failing callback is skipped.
+ * - `"rethrow"`: The hook is deleted like with `"delete"`, and the error is thrown out of the engine
+ *   on the next tick, so that the other hooks are still processed. Errors of several hooks are thrown
+ *   together as an `AggregateError`.
+ * - `{ type: "blacklist", ticks }`: The hook is deleted, and not created again for the same player
+ *   or entity until `ticks` ticks have passed.
+ * - `{ type: "backoff", initialTicks, maxTicks, multiplier }`: Like `"blacklist"`, but the delay starts at
+ *   `initialTicks` and is multiplied by `multiplier` (default `2`) after each consecutive error, up to
+ *   `maxTicks` (default `1200`). The streak is reset when a hook is deleted for a reason other than an error.
+ */
+export type ItemHookErrorPolicy =
+	| "delete"
+	| "skip"
+	| "rethrow"
+	| { readonly type: "blacklist"; readonly ticks: number }
+	| {
+			readonly type: "backoff";
+			readonly initialTicks: number;
+			readonly maxTicks?: number;
+			readonly multiplier?: number;
+	  };
+
+/**
+ * Where an error of an item hook was thrown.
+ * `"factory"` is the factory function passed to `register()`, other values are {@link HookedItemEvents} callbacks.
+ */
+export type ItemHookErrorPhase = "factory" | keyof HookedItemEvents;
+
+/**
+ * Information passed to {@link ItemHookRegisterOptions.onError}.
+ */
+export interface ItemHookErrorInfo {
+	/** The player or entity holding the item. */
+	readonly entity: mc.Entity;
+	/** The player holding the item, or `undefined` for non-player entities. */
+	readonly player?: mc.Player;
+	/** The item, or `undefined` if it was not available when the error was thrown. */
+	readonly itemStack?: mc.ItemStack;
+	readonly itemType: string;
+	readonly slot: mc.EquipmentSlot;
+	readonly phase: ItemHookErrorPhase;
+	readonly error: unknown;
+	/** The hook, or `undefined` if the factory threw the error. */
+	readonly hook?: EntityHookedItem;
+}
+
+/**
+ * Selects non-player entities by type ID or type family.
+ * An entity is selected if it matches any of the types or any of the families.
+ */
+export interface EntityHookFilter {
+	types?: readonly string[];
+	families?: readonly string[];
+}
+
+/**
+ * Options for registering an item hook that is also active for non-player entities.
+ */
+export interface EntityItemHookRegisterOptions extends ItemHookRegisterOptions {
+	/** Non-player entities for which the hook is active, in addition to players. */
+	entities: EntityHookFilter;
+}
+
+/**
+ * Identity mode of an item hook. See {@link ItemHookRegisterOptions.identity}.
+ */
+export type ItemHookIdentityMode = "type" | "instance";
 
 /**
- * Registry interface for managing item hook factories by item type.
+ * Registry interface for managing item hook factories by item matcher.
  */
-interface ItemHookRegistry {
-	register(itemType: string, factory: HookedItemFactory): void;
-	unregister(itemType: string): void;
+export interface ItemHookRegistry {
+	register(
+		matcher: ItemHookMatcher,
+		factory: HookedItemFactory,
+		options?: ItemHookRegisterOptions,
+	): void;
+	register(
+		matcher: ItemHookMatcher,
+		factory: EntityHookedItemFactory,
+		options: EntityItemHookRegisterOptions,
+	): void;
+	unregister(matcher: ItemHookMatcher): boolean;
 	unregisterAll(): void;
+	/**
+	 * Lifecycle events of the hooks created from this registry.
+	 *
+	 * @example
+	 * ```typescript
+	 * ItemHookRegistry.events.on("deleted", ({ hook, reason }) => {
+	 *   console.warn(`${hook.itemType} was deleted (${reason})`);
+	 * });
+	 * ```
+	 */
+	readonly events: EventEmitter<ItemHookLifecycleEvents>;
 }
 
 /**
- * Main registry for item hook factories.
+ * Why a hook was deleted.
+ *
+ * - `"slotChange"`: The item in the slot changed, or the player selected another hotbar slot.
+ * - `"death"`: The player or entity died.
+ * - `"leave"`: The player left the world.
+ * - `"entityRemove"`: The entity was removed from the world.
+ * - `"error"`: A callback of the hook threw an error. See {@link ItemHookErrorPolicy}.
+ * - `"deleteOnNextTick"`: The hook set {@link EntityHookedItem.deleteOnNextTick}.
+ * - `"unregistered"`: No registration uses the slot anymore.
+ * - `"invalid"`: The player or entity became invalid, or lost a required component.
+ * - `"stale"`: The periodic cleanup found a hook whose player or entity is gone.
+ * - `"forced"`: The hook was deleted with `forceDelete()` or `refresh()`.
+ * - `"shutdown"`: The world is shutting down.
  */
-const mainItemHookRegistry = {
-	factoriesByItemType: new Map<string, HookedItemFactory>(),
+export type ItemHookDeleteReason =
+	| "slotChange"
+	| "death"
+	| "leave"
+	| "entityRemove"
+	| "error"
+	| "deleteOnNextTick"
+	| "unregistered"
+	| "invalid"
+	| "stale"
+	| "forced"
+	| "shutdown";
 
-	register(itemType: string, factory: HookedItemFactory): void {
-		if (this.factoriesByItemType.has(itemType)) {
-			throw new Error(`Item hook is already registered for ${itemType}.`);
-		}
+/**
+ * Data shared by all item hook lifecycle events.
+ */
+export interface ItemHookLifecycleEventData {
+	readonly hook: EntityHookedItem;
+	readonly entity: mc.Entity;
+	readonly slot: mc.EquipmentSlot;
+}
 
-		this.factoriesByItemType.set(itemType, factory);
-	},
+/**
+ * Lifecycle events fired by {@link ItemHookRegistry.events}.
+ */
+export interface ItemHookLifecycleEvents {
+	/** A hook was created. Fired before its first tick. */
+	created: ItemHookLifecycleEventData & { readonly itemStack: mc.ItemStack };
+	/**
+	 * A hook was deleted. Fired after `onDelete`.
+	 * For the `"leave"`, `"entityRemove"` and `"shutdown"` reasons, this runs in a read-only context.
+	 */
+	deleted: ItemHookLifecycleEventData & { readonly reason: ItemHookDeleteReason };
+	/** A player started using a hooked item. Fired after `onStartUse`. */
+	startUse: ItemHookLifecycleEventData & { readonly event: mc.ItemStartUseAfterEvent };
+	/** A player stopped using a hooked item. Fired after `onStopUse`. */
+	stopUse: ItemHookLifecycleEventData & { readonly event: mc.ItemStopUseAfterEvent };
+	/** `onTick` of a hook threw an error. What happens next depends on {@link ItemHookRegisterOptions.errorPolicy}. */
+	tickError: ItemHookLifecycleEventData & {
+		readonly itemStack: mc.ItemStack;
+		readonly error: unknown;
+	};
+}
 
-	unregister(itemType: string): boolean {
-		return this.factoriesByItemType.delete(itemType);
-	},
+/**
+ * Tests whether an item stack is a resource (ammo, fuel, ...) for {@link HookedItem.countItems} and related methods.
+ */
+export type ItemResourcePredicate = (itemStack: mc.ItemStack) => boolean;
 
-	unregisterAll(): void {
-		this.factoriesByItemType.clear();
-	},
-} as const;
+/**
+ * Items set aside by {@link HookedItem.reserveItems}.
+ * Reserved items are excluded from {@link HookedItem.countAvailableItems} until committed or released.
+ */
+export interface ItemResourceReservation {
+	readonly amount: number;
+	/** Whether the reservation has neither been committed nor released yet. */
+	readonly isActive: boolean;
+	/**
+	 * Consumes the reserved items and ends the reservation.
+	 * @returns Whether the items were consumed. `false` if they are no longer in the inventory.
+	 */
+	commit(): boolean;
+	/** Ends the reservation without consuming the items. */
+	release(): void;
+}
 
 /**
- * Exposed registry for registering and managing item hooks.
+ * Durability of an item. See {@link EntityHookedItem.getDurability}.
  */
-export const ItemHookRegistry: ItemHookRegistry = mainItemHookRegistry;
+export interface ItemDurabilityInfo {
+	readonly damage: number;
+	readonly maxDurability: number;
+}
+
+/**
+ * Main registry for item hook factories.
+ */
+export const ItemHookRegistry: ItemHookRegistry = createItemHookRegistry();
 
 export interface HookedItemEvents {
 	onDelete(): void;
 	onTick(currentItemStack: mc.ItemStack): void;
 	canUse(e: mc.ItemStartUseAfterEvent): boolean;
 	onStartUse(e: mc.ItemStartUseAfterEvent): void;
-	onStopUse(e: mc.ItemStopUseAfterEvent): void;
+	onStopUse(e: mc.ItemStopUseAfterEvent, charge: number): void;
+	onUseTick(useTicks: number): void;
+	onSlotChanged(oldIndex: number, newIndex: number): void;
+	onInputPressed(input: PlayerInput): void;
+	onInputReleased(input: PlayerInput, heldTicks: number): void;
+	onMultiTap(input: PlayerInput, tapCount: number): void;
 	onHitEntity(e: mc.EntityHitEntityAfterEvent): void;
 	onHitBlock(e: mc.EntityHitBlockAfterEvent): void;
 	onBreakBlock(e: mc.PlayerBreakBlockAfterEvent): void;
 	onHurt(e: mc.EntityHurtAfterEvent): void;
+	onUse(e: mc.ItemUseAfterEvent): void;
+	onCompleteUse(e: mc.ItemCompleteUseAfterEvent): void;
+	onReleaseUse(e: mc.ItemReleaseUseAfterEvent): void;
+	onInteractWithBlock(e: mc.PlayerInteractWithBlockAfterEvent): void;
+	onInteractWithEntity(e: mc.PlayerInteractWithEntityAfterEvent): void;
+	onProjectileHitEntity(e: mc.ProjectileHitEntityAfterEvent): void;
+	onProjectileHitBlock(e: mc.ProjectileHitBlockAfterEvent): void;
+	onBeforeUse(e: mc.ItemUseBeforeEvent): void;
+	onBeforeBreakBlock(e: mc.PlayerBreakBlockBeforeEvent): void;
+	onBeforeInteractWithBlock(e: mc.PlayerInteractWithBlockBeforeEvent): void;
+	onBeforeInteractWithEntity(e: mc.PlayerInteractWithEntityBeforeEvent): void;
 }
 
 /**
- * Base class for custom hooked item logic. Extend to implement item behavior.
+ * Base class for custom hooked item logic that can be shared between players and non-player entities.
+ * Register it with {@link EntityItemHookRegisterOptions.entities} to run it for non-player entities.
+ * Extend {@link HookedItem} instead for items that are only used by players.
  */
-export abstract class HookedItem implements HookedItemEvents {
-	private readonly context: HookedItemContext;
+export abstract class EntityHookedItem implements HookedItemEvents {
+	private readonly context: EntityHookedItemContext;
 
-	constructor(context: HookedItemContext) {
+	constructor(context: EntityHookedItemContext) {
 		this.context = context;
 	}
 
-	get player(): mc.Player {
-		return this.context.player;
+	get entity(): mc.Entity {
+		return this.context.entity;
 	}
 
 	get dimension(): mc.Dimension {
-		return this.context.player.dimension;
+		return this.context.entity.dimension;
 	}
 
 	get equippable(): mc.EntityEquippableComponent {
-		return this.context.playerEquippable;
+		return this.context.equippable;
 	}
 
 	get health(): mc.EntityHealthComponent {
-		return this.context.playerHealth;
-	}
-
-	get inventory(): mc.EntityInventoryComponent {
-		return this.context.playerInventory;
+		return this.context.health;
 	}
 
 	get itemType(): string {
@@ -111,10 +425,31 @@ export abstract class HookedItem implements HookedItemEvents {
 		return this.context.initialItemStack;
 	}
 
+	get slot(): mc.EquipmentSlot {
+		return this.context.slot;
+	}
+
 	get initialSlotIndex(): number {
 		return this.context.initialSlotIndex;
 	}
 
+	/**
+	 * The hotbar slot index the item is currently in.
+	 * Same as {@link initialSlotIndex}, unless the hook followed the item to another slot
+	 * (see {@link ItemHookRegisterOptions.followItem}).
+	 */
+	get slotIndex(): number {
+		return this.context.getSlotIndex();
+	}
+
+	get instanceId(): string | undefined {
+		return this.context.instanceId;
+	}
+
+	get restoredState(): unknown {
+		return this.context.restoredState;
+	}
+
 	get currentTick(): number {
 		return this.context.getCurrentTick();
 	}
@@ -123,6 +458,31 @@ export abstract class HookedItem implements HookedItemEvents {
 		return this.context.getUsing();
 	}
 
+	/**
+	 * Number of ticks the item has been used for in the current use.
+	 * Reset when the next use starts, so it still holds the final value in `onStopUse`.
+	 */
+	get useTicks(): number {
+		return this.context.getUseTicks();
+	}
+
+	/**
+	 * Number of use ticks after which {@link charge} reaches `1`.
+	 * Defaults to {@link ItemHookRegisterOptions.maxChargeTicks} of the registration.
+	 */
+	get maxChargeTicks(): number {
+		return this.context.getMaxChargeTicks();
+	}
+
+	set maxChargeTicks(value: number) {
+		this.context.setMaxChargeTicks(value);
+	}
+
+	/** {@link useTicks} normalized by {@link maxChargeTicks}, from `0` to `1`. */
+	get charge(): number {
+		return clamp(this.useTicks / this.maxChargeTicks, 0, 1);
+	}
+
 	get deleteOnNextTick(): boolean {
 		return this.context.getDeleteOnNextTick();
 	}
@@ -131,8 +491,118 @@ export abstract class HookedItem implements HookedItemEvents {
 		this.context.setDeleteOnNextTick(value);
 	}
 
+	/** Whether the hook has been deleted. */
+	get isDeleted(): boolean {
+		return this.context.getDeleted();
+	}
+
+	/**
+	 * Interval in ticks at which `onTick` is called.
+	 * Defaults to {@link ItemHookRegisterOptions.tickInterval} of the registration.
+	 */
+	get tickInterval(): number {
+		return this.context.getTickInterval();
+	}
+
+	set tickInterval(value: number) {
+		this.context.setTickInterval(value);
+	}
+
+	/** Whether `onTick` is currently skipped because of {@link sleep}. */
+	get isSleeping(): boolean {
+		return this.context.getSleeping();
+	}
+
+	/**
+	 * Stops calling `onTick` until the next use, hit or hurt event is routed to this hook,
+	 * or until {@link wake} is called. Other events, such as interactions, do not wake it up.
+	 * {@link currentTick} keeps counting while sleeping.
+	 *
+	 * @param ticks - If specified, the hook also wakes up after this many ticks.
+	 */
+	sleep(ticks?: number): void {
+		this.context.sleep(ticks);
+	}
+
+	/** Resumes calling `onTick` after {@link sleep}. */
+	wake(): void {
+		this.context.wake();
+	}
+
+	/**
+	 * Gets the container slot that holds the hooked item.
+	 */
+	protected getHeldItemSlot(): mc.ContainerSlot {
+		return this.equippable.getEquipmentSlot(this.slot);
+	}
+
+	/**
+	 * Reads the durability of the hooked item.
+	 * @returns The durability, or `undefined` if the item is gone or has no durability.
+	 */
+	getDurability(): ItemDurabilityInfo | undefined {
+		const durability = this.getHeldItemSlot().getItem()?.getComponent("durability");
+		if (!durability) return undefined;
+
+		return { damage: durability.damage, maxDurability: durability.maxDurability };
+	}
+
+	/**
+	 * Damages the hooked item, and writes it back to its slot.
+	 * The item breaks (is removed) when the damage exceeds its max durability.
+	 *
+	 * @param amount - Damage to add. Negative values repair the item. Defaults to `1`.
+	 * @returns Whether the item broke.
+	 */
+	damageItem(amount = 1): boolean {
+		const slot = this.getHeldItemSlot();
+		const itemStack = slot.getItem();
+		const durability = itemStack?.getComponent("durability");
+		if (!itemStack || !durability) return false;
+
+		const damage = durability.damage + amount;
+
+		if (damage > durability.maxDurability) {
+			slot.setItem(undefined);
+			return true;
+		}
+
+		durability.damage = Math.max(0, damage);
+		slot.setItem(itemStack);
+		return false;
+	}
+
+	/**
+	 * Schedules a callback to run on the next tick, outside of the current (possibly read-only) context.
+	 * The callback is skipped if the hook gets deleted before then.
+	 *
+	 * Useful for performing world modifications from the `onBefore*` callbacks.
+	 */
+	defer(callback: () => void): void {
+		this.context.runNextTick(() => {
+			if (this.isDeleted) return;
+
+			try {
+				callback();
+			} catch (error) {
+				console.error(`Error in deferred callback of hooked item ${this.itemType}: ${error}`);
+			}
+		});
+	}
+
 	onDelete(): void {}
 
+	/**
+	 * Returns the state to save on the item stack, so that it can be restored through
+	 * {@link restoredState} when a hook is created for the item again.
+	 * The value must be JSON-serializable. Return `undefined` to not save anything. (Default)
+	 *
+	 * Only works for non-stackable items, since dynamic properties cannot be set on stackable ones.
+	 */
+	serializeState(): unknown {
+		return undefined;
+	}
+
 	onTick(currentItemStack: mc.ItemStack): void {}
 
 	canUse(e: mc.ItemStartUseAfterEvent): boolean {
@@ -141,7 +611,47 @@ export abstract class HookedItem implements HookedItemEvents {
 
 	onStartUse(e: mc.ItemStartUseAfterEvent): void {}
 
-	onStopUse(e: mc.ItemStopUseAfterEvent): void {}
+	/**
+	 * @param charge - {@link charge} at the time the use stopped.
+	 */
+	onStopUse(e: mc.ItemStopUseAfterEvent, charge: number): void {}
+
+	/**
+	 * Called every tick while {@link isUsing} is true, after `onTick`.
+	 * Unlike `onTick`, it is not affected by {@link tickInterval} and {@link sleep}.
+	 *
+	 * @param useTicks - Same as {@link useTicks}. `1` on the first tick after the use started.
+	 */
+	onUseTick(useTicks: number): void {}
+
+	/**
+	 * Called when the hook followed its item to another hotbar slot, before `onTick`.
+	 * See {@link ItemHookRegisterOptions.followItem}.
+	 */
+	onSlotChanged(oldIndex: number, newIndex: number): void {}
+
+	/**
+	 * Called when the player starts sneaking, jumping or sprinting, before `onTick`.
+	 * Only called for players.
+	 */
+	onInputPressed(input: PlayerInput): void {}
+
+	/**
+	 * Called when the player stops sneaking, jumping or sprinting, before `onTick`.
+	 * Only called for players.
+	 *
+	 * @param heldTicks - Number of ticks the input was down for.
+	 */
+	onInputReleased(input: PlayerInput, heldTicks: number): void {}
+
+	/**
+	 * Called when the player presses the same input several times in quick succession
+	 * (see {@link PlayerInputTrackerOptions.multiTapInterval}), after `onInputPressed`.
+	 * Only called for players.
+	 *
+	 * @param tapCount - Number of consecutive presses, `2` for a double-tap.
+	 */
+	onMultiTap(input: PlayerInput, tapCount: number): void {}
 
 	onHitEntity(e: mc.EntityHitEntityAfterEvent): void {}
 
@@ -150,355 +660,212 @@ export abstract class HookedItem implements HookedItemEvents {
 	onBreakBlock(e: mc.PlayerBreakBlockAfterEvent): void {}
 
 	onHurt(e: mc.EntityHurtAfterEvent): void {}
-}
-
-/**
- * Internal shared fields for HookedItemWrapper.
- */
-interface HookedItemInternalSharedFields {
-	currentTick: number;
-	isUsing: boolean;
-	deleteOnNextTick: boolean;
-}
-
-/**
- * Internal wrapper for managing per-player hooked item state.
- */
-interface HookedItemWrapper {
-	shared: HookedItemInternalSharedFields;
-	context: HookedItemContext;
-	factory: HookedItemFactory;
-	instance: HookedItem;
-}
 
-const PLAYER_ENTITY_TYPE = "minecraft:player";
-const hookedItemWrappersByPlayer = new Map<mc.Player, HookedItemWrapper>();
+	onUse(e: mc.ItemUseAfterEvent): void {}
 
-// Periodic cleanup to handle missed player disconnect events
-let cleanupCounter = 0;
-const CLEANUP_INTERVAL = 200; // Every 200 ticks (10 seconds)
+	onCompleteUse(e: mc.ItemCompleteUseAfterEvent): void {}
 
-// Call onTickPlayer() for each player in the world every tick
-mc.world.afterEvents.worldLoad.subscribe(() => {
-	mc.system.runInterval(() => {
-		if (mainItemHookRegistry.factoriesByItemType.size <= 0) return;
+	onReleaseUse(e: mc.ItemReleaseUseAfterEvent): void {}
 
-		const players = mc.world.getPlayers();
+	onInteractWithBlock(e: mc.PlayerInteractWithBlockAfterEvent): void {}
 
-		for (let i = 0; i < players.length; i++) {
-			const player = players[i];
-			if (player) {
-				onTickPlayer(player);
-			}
-		}
+	onInteractWithEntity(e: mc.PlayerInteractWithEntityAfterEvent): void {}
 
-		// Periodic cleanup for stale entries
-		cleanupCounter++;
-		if (cleanupCounter >= CLEANUP_INTERVAL) {
-			cleanupCounter = 0;
-			performPeriodicCleanup();
-		}
-	}, 1);
-});
+	/** Called when a projectile fired by the player hits an entity. */
+	onProjectileHitEntity(e: mc.ProjectileHitEntityAfterEvent): void {}
 
-/**
- * Periodically cleans up stale player hooks.
- */
-function performPeriodicCleanup(): void {
-	const activePlayers = mc.world.getPlayers();
-	const playersToRemove: mc.Player[] = [];
+	/** Called when a projectile fired by the player hits a block. */
+	onProjectileHitBlock(e: mc.ProjectileHitBlockAfterEvent): void {}
 
-	for (const [player] of hookedItemWrappersByPlayer) {
-		if (!player.isValid || !activePlayers.includes(player)) {
-			playersToRemove.push(player);
-		}
-	}
+	/**
+	 * Called before the item is used. Set `e.cancel` to `true` to cancel it.
+	 *
+	 * Runs in a read-only context. Use {@link defer} to modify the world.
+	 */
+	onBeforeUse(e: mc.ItemUseBeforeEvent): void {}
 
-	for (const player of playersToRemove) {
-		console.warn(`Cleaning up stale hook for player: ${player.name || "unknown"}`);
-		deleteWrapper(player);
-	}
-}
+	/**
+	 * Called before the player breaks a block. Set `e.cancel` to `true` to cancel it.
+	 *
+	 * Runs in a read-only context. Use {@link defer} to modify the world.
+	 */
+	onBeforeBreakBlock(e: mc.PlayerBreakBlockBeforeEvent): void {}
 
-function getItemStackSafely(player: mc.Player): mc.ItemStack | undefined {
-	try {
-		const equippable = player.getComponent("equippable");
-		if (!equippable) return undefined;
+	/**
+	 * Called before the player interacts with a block. Set `e.cancel` to `true` to cancel it.
+	 *
+	 * Runs in a read-only context. Use {@link defer} to modify the world.
+	 */
+	onBeforeInteractWithBlock(e: mc.PlayerInteractWithBlockBeforeEvent): void {}
 
-		const mainhandSlot = equippable.getEquipmentSlot(mc.EquipmentSlot.Mainhand);
-		return mainhandSlot.getItem();
-	} catch (error) {
-		console.warn(`Error getting item stack for player ${player.name}: ${error}`);
-		return undefined;
-	}
-}
-
-function areItemsEquivalent(
-	item1: mc.ItemStack | undefined,
-	item2: mc.ItemStack | undefined,
-): boolean {
-	if (!item1 || !item2) return item1 === item2;
-
-	return item1.typeId === item2.typeId;
+	/**
+	 * Called before the player interacts with an entity. Set `e.cancel` to `true` to cancel it.
+	 *
+	 * Runs in a read-only context. Use {@link defer} to modify the world.
+	 */
+	onBeforeInteractWithEntity(e: mc.PlayerInteractWithEntityBeforeEvent): void {}
 }
 
 /**
- * Handles per-tick logic for a player, including hook creation and deletion.
+ * Base class for custom hooked item logic. Extend to implement item behavior.
  */
-function onTickPlayer(player: mc.Player): void {
-	if (!player.isValid) {
-		deleteWrapper(player);
-		return;
-	}
-
-	const lastWrapper = hookedItemWrappersByPlayer.get(player);
-	let wrapperForThisTick = lastWrapper;
-
-	// Validate all required components
-	const equippable = player.getComponent("equippable");
-	if (!equippable) {
-		console.warn(`Could not find equippable component for player ${player.name}.`);
-		deleteWrapper(player, lastWrapper);
-		return;
-	}
-
-	const health = player.getComponent("health");
-	if (!health) {
-		console.warn(`Could not find health component for player ${player.name}.`);
-		deleteWrapper(player, lastWrapper);
-		return;
-	}
-
-	const inventory = player.getComponent("inventory");
-	if (!inventory) {
-		console.warn(`Could not find inventory component for player ${player.name}.`);
-		deleteWrapper(player, lastWrapper);
-		return;
-	}
-
-	const isAlive = health.currentValue > 0;
-	if (!isAlive) {
-		deleteWrapper(player, lastWrapper);
-		return;
-	}
-
-	const itemStack = getItemStackSafely(player);
-
-	// More robust item equivalence check
-	const isHoldingSameItem =
-		lastWrapper &&
-		lastWrapper.context.itemType === itemStack?.typeId &&
-		lastWrapper.context.initialSlotIndex === player.selectedSlotIndex &&
-		areItemsEquivalent(lastWrapper.context.initialItemStack, itemStack);
-
-	const hookFactoryForCurrentItem = isHoldingSameItem
-		? lastWrapper.factory
-		: itemStack === undefined
-			? undefined
-			: mainItemHookRegistry.factoriesByItemType.get(itemStack.typeId);
-
-	const shouldDeleteWrapper =
-		lastWrapper &&
-		(!isHoldingSameItem ||
-			!itemStack ||
-			hookFactoryForCurrentItem === undefined ||
-			lastWrapper.shared.deleteOnNextTick);
-
-	if (shouldDeleteWrapper) {
-		wrapperForThisTick = undefined;
-		deleteWrapper(player, lastWrapper);
-	}
-
-	const shouldCreateNewHook =
-		!isHoldingSameItem && itemStack && hookFactoryForCurrentItem !== undefined;
-
-	if (shouldCreateNewHook) {
-		try {
-			const shared: HookedItemInternalSharedFields = {
-				currentTick: 0,
-				isUsing: false,
-				deleteOnNextTick: false,
-			};
-
-			const ctx: HookedItemContext = {
-				player,
-				playerEquippable: equippable,
-				playerHealth: health,
-				playerInventory: inventory,
-				itemType: itemStack.typeId,
-				initialItemStack: itemStack,
-				initialSlotIndex: player.selectedSlotIndex,
-
-				getCurrentTick: () => shared.currentTick,
-				getUsing: () => shared.isUsing,
-				getDeleteOnNextTick: () => shared.deleteOnNextTick,
-				setDeleteOnNextTick: (value) => (shared.deleteOnNextTick = value),
-			};
-
-			const newHook = hookFactoryForCurrentItem(ctx);
-
-			const newWrapper: HookedItemWrapper = {
-				shared,
-				context: ctx,
-				factory: hookFactoryForCurrentItem,
-				instance: newHook,
-			};
-
-			hookedItemWrappersByPlayer.set(player, newWrapper);
-			wrapperForThisTick = newWrapper;
-		} catch (error) {
-			console.error(
-				`Error creating hook for item ${itemStack.typeId} for player ${player.name}: ${error}`,
-			);
-			return;
-		}
-	}
+export abstract class HookedItem extends EntityHookedItem {
+	private readonly playerContext: HookedItemContext;
 
-	// Safe tick execution
-	if (wrapperForThisTick && itemStack) {
-		try {
-			wrapperForThisTick.instance.onTick(itemStack);
-			wrapperForThisTick.shared.currentTick++;
-		} catch (error) {
-			console.error(
-				`Error occurred while ticking hooked item (ID: ${itemStack.typeId}) for player ${player.name}: ${error}`,
-			);
-			// Mark for deletion to prevent repeated errors
-			wrapperForThisTick.shared.deleteOnNextTick = true;
-		}
+	constructor(context: HookedItemContext) {
+		super(context);
+		this.playerContext = context;
 	}
-}
 
-/**
- * Deletes the HookedItemWrapper for a player and calls onDelete.
- */
-function deleteWrapper(player: mc.Player, wrapper?: HookedItemWrapper): void {
-	if (!wrapper) {
-		wrapper = hookedItemWrappersByPlayer.get(player);
+	get player(): mc.Player {
+		return this.playerContext.player;
 	}
 
-	if (wrapper) {
-		hookedItemWrappersByPlayer.delete(player);
-		try {
-			wrapper.instance.onDelete?.();
-		} catch (error) {
-			console.error(`Error in onDelete for player ${player.name}: ${error}`);
-		}
+	get inventory(): mc.EntityInventoryComponent {
+		return this.playerContext.playerInventory;
 	}
-}
 
-mc.world.beforeEvents.playerLeave.subscribe(({ player }) => {
-	deleteWrapper(player);
-});
-
-mc.system.beforeEvents.shutdown.subscribe(() => {
-	const playersToCleanup = Array.from(hookedItemWrappersByPlayer.keys());
-	for (const player of playersToCleanup) {
-		deleteWrapper(player);
+	/** Sneak, jump and sprint state of the player. */
+	get input(): PlayerInputTracker {
+		return this.playerContext.input;
 	}
-});
-
-mc.world.afterEvents.itemStartUse.subscribe((e) => {
-	if (!e.source || !e.itemStack) return;
-
-	const wrapper = hookedItemWrappersByPlayer.get(e.source);
-	if (!wrapper) return;
 
-	if (wrapper.context.itemType !== e.itemStack.typeId) return;
-	if (wrapper.context.initialSlotIndex !== e.source.selectedSlotIndex) return;
-	if (wrapper.shared.isUsing) return;
+	private readonly reservations: { predicate: ItemResourcePredicate; amount: number }[] = [];
 
-	try {
-		if (!wrapper.instance.canUse(e)) return;
-
-		wrapper.shared.isUsing = true;
-		wrapper.instance.onStartUse(e);
-	} catch (error) {
-		console.error(`Error in onStartUse for player ${e.source.name}: ${error}`);
-		wrapper.shared.isUsing = false;
+	protected override getHeldItemSlot(): mc.ContainerSlot {
+		if (this.slotIndex === -1) return super.getHeldItemSlot();
+		return this.inventory.container.getSlot(this.slotIndex);
 	}
-});
 
-mc.world.afterEvents.itemStopUse.subscribe((e) => {
-	if (!e.source) return;
+	/**
+	 * Counts the items in the player's inventory that match the predicate, including reserved items.
+	 */
+	countItems(predicate: ItemResourcePredicate): number {
+		let count = 0;
 
-	const wrapper = hookedItemWrappersByPlayer.get(e.source);
-	if (!wrapper) return;
+		forEachItemStack(this.inventory.container, (itemStack) => {
+			if (predicate(itemStack)) count += itemStack.amount;
+		});
 
-	if (e.itemStack) {
-		if (wrapper.context.itemType !== e.itemStack.typeId) return;
+		return count;
 	}
 
-	if (wrapper.context.initialSlotIndex !== e.source.selectedSlotIndex) return;
-	if (!wrapper.shared.isUsing) return;
-
-	try {
-		wrapper.shared.isUsing = false;
-		wrapper.instance.onStopUse(e);
-	} catch (error) {
-		console.error(`Error in onStopUse for player ${e.source.name}: ${error}`);
-		wrapper.shared.isUsing = false;
-	}
-});
+	/**
+	 * Counts the items in the player's inventory that match the predicate and are not reserved.
+	 *
+	 * Each reservation claims the items that match its own predicate slot by slot, in the order the
+	 * reservations were made. Claimed items are excluded from every predicate that matches them.
+	 */
+	countAvailableItems(predicate: ItemResourcePredicate): number {
+		const stacks: { itemStack: mc.ItemStack; unreserved: number }[] = [];
+		forEachItemStack(this.inventory.container, (itemStack) => {
+			stacks.push({ itemStack, unreserved: itemStack.amount });
+		});
 
-mc.world.afterEvents.entityHitEntity.subscribe(
-	(e) => {
-		if (!(e.damagingEntity instanceof mc.Player)) return;
+		for (const reservation of this.reservations) {
+			let remaining = reservation.amount;
 
-		const wrapper = hookedItemWrappersByPlayer.get(e.damagingEntity);
-		if (!wrapper) return;
+			for (const stack of stacks) {
+				if (remaining <= 0) break;
+				if (!reservation.predicate(stack.itemStack)) continue;
 
-		try {
-			wrapper.instance.onHitEntity(e);
-		} catch (error) {
-			console.error(`Error in onHitEntity for player ${e.damagingEntity.name}: ${error}`);
-		}
-	},
-	{
-		entityTypes: [PLAYER_ENTITY_TYPE],
-	},
-);
-
-mc.world.afterEvents.entityHitBlock.subscribe(
-	(e) => {
-		if (!(e.damagingEntity instanceof mc.Player)) return;
-
-		const wrapper = hookedItemWrappersByPlayer.get(e.damagingEntity);
-		if (!wrapper) return;
-
-		try {
-			wrapper.instance.onHitBlock(e);
-		} catch (error) {
-			console.error(`Error in onHitBlock for player ${e.damagingEntity.name}: ${error}`);
+				const claimed = Math.min(stack.unreserved, remaining);
+				stack.unreserved -= claimed;
+				remaining -= claimed;
+			}
 		}
-	},
-	{
-		entityTypes: [PLAYER_ENTITY_TYPE],
-	},
-);
 
-mc.world.afterEvents.playerBreakBlock.subscribe((e) => {
-	if (!e.player) return;
-
-	const wrapper = hookedItemWrappersByPlayer.get(e.player);
-	if (!wrapper) return;
+		return stacks
+			.filter((stack) => predicate(stack.itemStack))
+			.reduce((sum, stack) => sum + stack.unreserved, 0);
+	}
 
-	try {
-		wrapper.instance.onBreakBlock(e);
-	} catch (error) {
-		console.error(`Error in onBreakBlock for player ${e.player.name}: ${error}`);
+	/**
+	 * Checks whether the player has enough unreserved items that match the predicate.
+	 * Always `true` in Creative and Spectator mode.
+	 */
+	hasItems(predicate: ItemResourcePredicate, amount = 1): boolean {
+		if (isCreativeOrSpectator(this.player)) return true;
+		return this.countAvailableItems(predicate) >= amount;
 	}
-});
 
-mc.world.afterEvents.entityHurt.subscribe((e) => {
-	if (!(e.hurtEntity instanceof mc.Player)) return;
+	/**
+	 * Removes items that match the predicate from the player's inventory, starting from the first slot.
+	 * Nothing is removed unless there are enough unreserved items.
+	 * In Creative and Spectator mode nothing is removed, and the result is always `true`.
+	 *
+	 * @returns Whether the items were consumed.
+	 */
+	consumeItems(predicate: ItemResourcePredicate, amount = 1): boolean {
+		if (isCreativeOrSpectator(this.player)) return true;
+		if (this.countAvailableItems(predicate) < amount) return false;
 
-	const wrapper = hookedItemWrappersByPlayer.get(e.hurtEntity);
-	if (!wrapper) return;
+		this.removeItems(predicate, amount);
+		return true;
+	}
 
-	try {
-		wrapper.instance.onHurt(e);
-	} catch (error) {
-		console.error(`Error in onHurt for player ${e.hurtEntity.name}: ${error}`);
+	/**
+	 * Sets aside items that match the predicate, e.g. ammo for a shot that is still charging.
+	 * In Creative and Spectator mode the reservation always succeeds and committing it removes nothing.
+	 *
+	 * @returns The reservation, or `undefined` if there are not enough unreserved items.
+	 */
+	reserveItems(predicate: ItemResourcePredicate, amount = 1): ItemResourceReservation | undefined {
+		if (!this.hasItems(predicate, amount)) return undefined;
+
+		const entry = { predicate, amount };
+		this.reservations.push(entry);
+
+		let isActive = true;
+		const end = (): void => {
+			if (!isActive) return;
+			isActive = false;
+			this.reservations.splice(this.reservations.indexOf(entry), 1);
+		};
+
+		return {
+			amount,
+			get isActive() {
+				return isActive;
+			},
+			commit: () => {
+				if (!isActive) return false;
+				end();
+				return this.consumeItems(predicate, amount);
+			},
+			release: end,
+		};
+	}
+
+	override damageItem(amount = 1): boolean {
+		if (isCreativeOrSpectator(this.player)) return false;
+		return super.damageItem(amount);
+	}
+
+	/**
+	 * Removes items without checking the amount or the game mode first.
+	 */
+	private removeItems(predicate: ItemResourcePredicate, amount: number): void {
+		const container = this.inventory.container;
+		let remaining = amount;
+
+		while (remaining > 0) {
+			const slot = findContainerSlot(container, (slot) => {
+				const itemStack = slot.getItem();
+				return itemStack !== undefined && predicate(itemStack);
+			});
+			if (!slot) return;
+
+			const itemStack = slot.getItem()!;
+			const taken = Math.min(itemStack.amount, remaining);
+			remaining -= taken;
+
+			if (taken >= itemStack.amount) {
+				slot.setItem(undefined);
+			} else {
+				itemStack.amount -= taken;
+				slot.setItem(itemStack);
+			}
+		}
 	}
-});
+}
@@ -0,0 +1,171 @@
+import type * as mc from "@minecraft/server";
+
+/**
+ * Player inputs that can be tracked by {@link PlayerInputTracker}.
+ */
+export type PlayerInput = "sneak" | "jump" | "sprint";
+
+/**
+ * Options for {@link PlayerInputTracker}.
+ */
+export interface PlayerInputTrackerOptions {
+	/**
+	 * Maximum number of ticks between two presses of the same input for them to count as a multi-tap.
+	 * Defaults to `7`.
+	 */
+	multiTapInterval?: number;
+}
+
+/**
+ * A change of an input detected by {@link PlayerInputTracker.update}.
+ */
+export type PlayerInputChange =
+	| { readonly type: "pressed"; readonly input: PlayerInput }
+	| { readonly type: "released"; readonly input: PlayerInput; readonly heldTicks: number }
+	| { readonly type: "multiTap"; readonly input: PlayerInput; readonly tapCount: number };
+
+interface InputState {
+	isDown: boolean;
+	heldTicks: number;
+	wasPressed: boolean;
+	wasReleased: boolean;
+	tapCount: number;
+	ticksSinceLastPress: number;
+}
+
+const INPUTS: readonly PlayerInput[] = ["sneak", "jump", "sprint"];
+
+const isInputDown = (player: mc.Player, input: PlayerInput): boolean => {
+	switch (input) {
+		case "sneak":
+			return player.isSneaking;
+		case "jump":
+			return player.isJumping;
+		case "sprint":
+			return player.isSprinting;
+	}
+};
+
+/**
+ * Samples the sneak, jump and sprint state of a player once per tick, and detects presses,
+ * releases, holds and multi-taps.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new PlayerInputTracker(player, { multiTapInterval: 5 });
+ *
+ * system.runInterval(() => {
+ *   tracker.update();
+ *   if (tracker.getTapCount("jump") === 2 && tracker.isPressed("jump")) {
+ *     player.sendMessage("Double jump!");
+ *   }
+ * });
+ * ```
+ */
+export class PlayerInputTracker {
+	/** Maximum number of ticks between two presses for them to count as a multi-tap. */
+	multiTapInterval: number;
+
+	private readonly states = new Map<PlayerInput, InputState>();
+	private hasSampled = false;
+
+	constructor(
+		readonly player: mc.Player,
+		options?: PlayerInputTrackerOptions,
+	) {
+		this.multiTapInterval = options?.multiTapInterval ?? 7;
+
+		for (const input of INPUTS) {
+			this.states.set(input, {
+				isDown: false,
+				heldTicks: 0,
+				wasPressed: false,
+				wasReleased: false,
+				tapCount: 0,
+				ticksSinceLastPress: Infinity,
+			});
+		}
+	}
+
+	/**
+	 * Samples the current input state. Must be called once per tick.
+	 * The first call only records the initial state, so inputs that are already down are not reported as pressed.
+	 *
+	 * @returns The changes since the last call, in the order presses, multi-taps, releases.
+	 */
+	update(): PlayerInputChange[] {
+		const changes: PlayerInputChange[] = [];
+		const isFirstSample = !this.hasSampled;
+		this.hasSampled = true;
+
+		for (const [input, state] of this.states) {
+			const isDown = this.player.isValid && isInputDown(this.player, input);
+
+			state.wasPressed = !isFirstSample && isDown && !state.isDown;
+			state.wasReleased = !isFirstSample && !isDown && state.isDown;
+			state.ticksSinceLastPress++;
+
+			if (state.wasPressed) {
+				state.tapCount =
+					state.ticksSinceLastPress <= this.multiTapInterval ? state.tapCount + 1 : 1;
+				state.ticksSinceLastPress = 0;
+
+				changes.push({ type: "pressed", input });
+
+				if (state.tapCount >= 2) {
+					changes.push({ type: "multiTap", input, tapCount: state.tapCount });
+				}
+			}
+
+			if (state.wasReleased) {
+				changes.push({ type: "released", input, heldTicks: state.heldTicks });
+			}
+
+			if (state.ticksSinceLastPress > this.multiTapInterval && !isDown) {
+				state.tapCount = 0;
+			}
+
+			state.heldTicks = isDown ? state.heldTicks + 1 : 0;
+			state.isDown = isDown;
+		}
+
+		return changes;
+	}
+
+	/** Whether the input is currently down. */
+	isDown(input: PlayerInput): boolean {
+		return this.getState(input).isDown;
+	}
+
+	/** Whether the input was pressed on the last {@link update}. */
+	isPressed(input: PlayerInput): boolean {
+		return this.getState(input).wasPressed;
+	}
+
+	/** Whether the input was released on the last {@link update}. */
+	isReleased(input: PlayerInput): boolean {
+		return this.getState(input).wasReleased;
+	}
+
+	/** Number of ticks the input has been down for. `0` if it is not down. */
+	getHeldTicks(input: PlayerInput): number {
+		return this.getState(input).heldTicks;
+	}
+
+	/** Whether the input has been down for at least `ticks` ticks. */
+	isHeldFor(input: PlayerInput, ticks: number): boolean {
+		return this.getState(input).heldTicks >= ticks;
+	}
+
+	/**
+	 * Number of consecutive presses within {@link multiTapInterval} of each other,
+	 * e.g. `2` right after a double-tap. `0` once the interval has passed.
+	 */
+	getTapCount(input: PlayerInput): number {
+		return this.getState(input).tapCount;
+	}
+
+	private getState(input: PlayerInput): InputState {
+		return this.states.get(input)!;
+	}
+}
@@ -1,4 +1,4 @@
-import * as mc from "@minecraft/server";
+import type * as mc from "@minecraft/server";
 
 /**
  * Checks if the player is in Creative or Spectator game mode.
@@ -7,8 +7,9 @@ import * as mc from "@minecraft/server";
  */
 export const isCreativeOrSpectator = (player: mc.Player): boolean => {
 	if (!player.isValid) return false;
+	// Compared by value, so that HookedItem can be loaded outside of the game, e.g. in Node tests
 	const gameMode = player.getGameMode();
-	return gameMode === mc.GameMode.Creative || gameMode === mc.GameMode.Spectator;
+	return gameMode === ("Creative" as mc.GameMode) || gameMode === ("Spectator" as mc.GameMode);
 };
 
 /**
@@ -1,5 +1,18 @@
-import * as mc from "@minecraft/server";
-import { HookedItem, type HookedItemContext, type HookedItemEvents } from "./item-hook.js";
+import type * as mc from "@minecraft/server";
+import {
+	HookedItem,
+	type EntityHookedItem,
+	type HookedItemContext,
+	type HookedItemEvents,
+} from "./item-hook.js";
+import type { PlayerInput } from "./player-input.js";
+import {
+	MachineState,
+	StateMachineRunner,
+	type StateMachineDefinition,
+	type StateMachineInstance,
+	type StateMachineTracer,
+} from "./state-machine.js";
 
 /** Defines the interface for a state machine, which manages and transitions between different states. */
 export interface StateMachine<TState> {
@@ -18,6 +31,12 @@ export interface StateMachine<TState> {
  * allowing subclasses to define specific behaviors for different item states.
  *
  * **NOTE: There is no predefined state machine logic in item hook, and you have to create your own.**
+ * {@link StateDrivenHookedItem} implements one on top of {@link StateMachineRunner}, which also runs states outside of items.
+ *
+ * States can be nested by passing a parent state to the constructor.
+ * Event methods that a state does not override bubble up to its parent,
+ * and an override can call `super` to let the parent handle the event as well.
+ * `onEnter`, `onExit`, `onTick` and `onDelete` are called on each level separately and never bubble.
  *
  * @example
  * ```typescript
@@ -53,67 +72,189 @@ export interface StateMachine<TState> {
  *     this.owner.player.sendMessage("Greetings from the custom state method!");
  *   }
  * }
+ *
+ * // Nested states: "Idle" and "Aiming" share the input handling of "Equipped".
+ * class EquippedState extends HookedItemState<Pistol> {
+ *   override onInputPressed(input: PlayerInput): void {
+ *     if (input === "sneak") this.owner.reload();
+ *   }
+ * }
+ *
+ * class IdleState extends HookedItemState<Pistol> {
+ *   override onStartUse(): void {
+ *     // Only Aiming is exited and entered, Equipped stays active
+ *     this.owner.changeState(new AimingState(this.owner, this.parent));
+ *   }
+ * }
+ *
+ * const equipped = new EquippedState(pistol);
+ * pistol.changeState(new IdleState(pistol, equipped));
  * ```
  */
-export abstract class HookedItemState<TOwner extends HookedItem = HookedItem>
+export abstract class HookedItemState<TOwner extends EntityHookedItem = HookedItem>
+	extends MachineState<TOwner, {}, [currentItemStack: mc.ItemStack]>
 	implements HookedItemEvents
 {
-	private _currentTick = 0;
+	declare readonly parent?: HookedItemState<TOwner>;
 
-	constructor(public readonly owner: TOwner) {}
+	/**
+	 * @param owner - The hooked item that owns this state.
+	 * @param parent - The state that contains this state. Events this state does not handle bubble up to it.
+	 */
+	constructor(owner: TOwner, parent?: HookedItemState<TOwner>) {
+		super(owner, parent);
+	}
 
-	/** Gets the number of ticks this state has been active. */
-	get currentTick(): number {
-		return this._currentTick;
+	/** The hooked item that owns this state. Same as {@link context}. */
+	get owner(): TOwner {
+		return this.context;
+	}
+
+	override getPath(): HookedItemState<TOwner>[] {
+		return super.getPath() as HookedItemState<TOwner>[];
 	}
 
 	/** Custom hooked item (state machine) should call this method when the state enters. */
-	onEnter(): void {}
+	override onEnter(): void {}
 
 	/** Custom hooked item (state machine) should call this method when the state exits. */
-	onExit(): void {}
+	override onExit(): void {}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.onDelete()`. */
 	onDelete(): void {}
 
-	/**
-	 * Dispatches the tick event and manages the internal tick count.
-	 * Should be called by the state machine.
-	 * @sealed
-	 */
-	update(currentItemStack: mc.ItemStack): void {
-		this.onTick(currentItemStack);
-		this._currentTick++;
-	}
-
 	/**
 	 * Logic for the state to perform on each tick.
 	 * Subclasses should override this method.
 	 */
-	onTick(currentItemStack: mc.ItemStack): void {}
+	override onTick(currentItemStack: mc.ItemStack): void {}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.canUse()`. */
 	canUse(e: mc.ItemStartUseAfterEvent): boolean {
-		return true;
+		return this.parent?.canUse(e) ?? true;
 	}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.onStartUse()`. */
-	onStartUse(e: mc.ItemStartUseAfterEvent): void {}
+	onStartUse(e: mc.ItemStartUseAfterEvent): void {
+		this.parent?.onStartUse(e);
+	}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.onStopUse()`. */
-	onStopUse(e: mc.ItemStopUseAfterEvent): void {}
+	onStopUse(e: mc.ItemStopUseAfterEvent, charge: number): void {
+		this.parent?.onStopUse(e, charge);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onUseTick()`. */
+	onUseTick(useTicks: number): void {
+		this.parent?.onUseTick(useTicks);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onSlotChanged()`. */
+	onSlotChanged(oldIndex: number, newIndex: number): void {
+		this.parent?.onSlotChanged(oldIndex, newIndex);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onInputPressed()`. */
+	onInputPressed(input: PlayerInput): void {
+		this.parent?.onInputPressed(input);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onInputReleased()`. */
+	onInputReleased(input: PlayerInput, heldTicks: number): void {
+		this.parent?.onInputReleased(input, heldTicks);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onMultiTap()`. */
+	onMultiTap(input: PlayerInput, tapCount: number): void {
+		this.parent?.onMultiTap(input, tapCount);
+	}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.onHitEntity()`. */
-	onHitEntity(e: mc.EntityHitEntityAfterEvent): void {}
+	onHitEntity(e: mc.EntityHitEntityAfterEvent): void {
+		this.parent?.onHitEntity(e);
+	}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.onHitBlock()`. */
-	onHitBlock(e: mc.EntityHitBlockAfterEvent): void {}
+	onHitBlock(e: mc.EntityHitBlockAfterEvent): void {
+		this.parent?.onHitBlock(e);
+	}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.onBreakBlock()`. */
-	onBreakBlock(e: mc.PlayerBreakBlockAfterEvent): void {}
+	onBreakBlock(e: mc.PlayerBreakBlockAfterEvent): void {
+		this.parent?.onBreakBlock(e);
+	}
 
 	/** Custom hooked item (state machine) should call this method from within `HookedItem.onHurt()`. */
-	onHurt(e: mc.EntityHurtAfterEvent): void {}
+	onHurt(e: mc.EntityHurtAfterEvent): void {
+		this.parent?.onHurt(e);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onUse()`. */
+	onUse(e: mc.ItemUseAfterEvent): void {
+		this.parent?.onUse(e);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onCompleteUse()`. */
+	onCompleteUse(e: mc.ItemCompleteUseAfterEvent): void {
+		this.parent?.onCompleteUse(e);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onReleaseUse()`. */
+	onReleaseUse(e: mc.ItemReleaseUseAfterEvent): void {
+		this.parent?.onReleaseUse(e);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onInteractWithBlock()`. */
+	onInteractWithBlock(e: mc.PlayerInteractWithBlockAfterEvent): void {
+		this.parent?.onInteractWithBlock(e);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onInteractWithEntity()`. */
+	onInteractWithEntity(e: mc.PlayerInteractWithEntityAfterEvent): void {
+		this.parent?.onInteractWithEntity(e);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onProjectileHitEntity()`. */
+	onProjectileHitEntity(e: mc.ProjectileHitEntityAfterEvent): void {
+		this.parent?.onProjectileHitEntity(e);
+	}
+
+	/** Custom hooked item (state machine) should call this method from within `HookedItem.onProjectileHitBlock()`. */
+	onProjectileHitBlock(e: mc.ProjectileHitBlockAfterEvent): void {
+		this.parent?.onProjectileHitBlock(e);
+	}
+
+	/**
+	 * Custom hooked item (state machine) should call this method from within `HookedItem.onBeforeUse()`.
+	 * Runs in a read-only context.
+	 */
+	onBeforeUse(e: mc.ItemUseBeforeEvent): void {
+		this.parent?.onBeforeUse(e);
+	}
+
+	/**
+	 * Custom hooked item (state machine) should call this method from within `HookedItem.onBeforeBreakBlock()`.
+	 * Runs in a read-only context.
+	 */
+	onBeforeBreakBlock(e: mc.PlayerBreakBlockBeforeEvent): void {
+		this.parent?.onBeforeBreakBlock(e);
+	}
+
+	/**
+	 * Custom hooked item (state machine) should call this method from within `HookedItem.onBeforeInteractWithBlock()`.
+	 * Runs in a read-only context.
+	 */
+	onBeforeInteractWithBlock(e: mc.PlayerInteractWithBlockBeforeEvent): void {
+		this.parent?.onBeforeInteractWithBlock(e);
+	}
+
+	/**
+	 * Custom hooked item (state machine) should call this method from within `HookedItem.onBeforeInteractWithEntity()`.
+	 * Runs in a read-only context.
+	 */
+	onBeforeInteractWithEntity(e: mc.PlayerInteractWithEntityBeforeEvent): void {
+		this.parent?.onBeforeInteractWithEntity(e);
+	}
 }
 
 export abstract class StateDrivenHookedItem<TState extends HookedItemState = HookedItemState>
@@ -122,22 +263,131 @@ export abstract class StateDrivenHookedItem<TState extends HookedItemState = Hoo
 {
 	constructor(ctx: HookedItemContext) {
 		super(ctx);
+		this.runner.events.on("transition", ({ to }) => {
+			this.state = to;
+		});
 	}
 
 	abstract state: TState;
 
-	changeState(newState: TState): void {
-		this.state.onExit();
-		this.state = newState;
-		this.state.onEnter();
+	private readonly runner = new StateMachineRunner<
+		HookedItem,
+		{},
+		[currentItemStack: mc.ItemStack],
+		TState
+	>();
+	private stateMachine?: { tick(): void };
+
+	/**
+	 * Transitions to `newState`. With nested states, only the levels that change are exited (innermost first)
+	 * and entered (outermost first). Changing to the current state exits and enters it again.
+	 * @param cause - Recorded by {@link tracer}. Defaults to `"manual"`.
+	 */
+	changeState(newState: TState, cause?: string): void {
+		this.syncRunner();
+		this.runner.changeState(newState, cause);
+	}
+
+	/**
+	 * Records every transition of this item's states when set.
+	 * Nested states are recorded as their path, e.g. `"Equipped/Aiming"`.
+	 */
+	get tracer(): StateMachineTracer | undefined {
+		return this.runner.tracer;
+	}
+
+	set tracer(tracer: StateMachineTracer | undefined) {
+		this.runner.tracer = tracer;
+	}
+
+	/**
+	 * Drives {@link state} with a machine created from `definition`.
+	 * Whenever the machine enters a state, the object returned by `createState` becomes the current state.
+	 * The machine is ticked after the current state on every tick, so auto transitions apply from the next tick.
+	 * States may transition the machine again from `onEnter`.
+	 *
+	 * Once a machine is used, transition with its `transition()` instead of {@link changeState},
+	 * so that its transitions and guards stay in charge.
+	 *
+	 * @example
+	 * ```typescript
+	 * type PistolStateName = "idle" | "aiming" | "reloading";
+	 *
+	 * const pistolStates = new StateMachineDefinition<PistolStateName, Pistol>()
+	 *   .state("idle")
+	 *   .state("aiming")
+	 *   .state("reloading")
+	 *   .transition("idle", "aiming")
+	 *   .transition("aiming", "idle")
+	 *   .transition(["idle", "aiming"], "reloading")
+	 *   .autoTransition("reloading", "idle", { afterTicks: 40 });
+	 *
+	 * abstract class PistolState extends HookedItemState<Pistol> {}
+	 *
+	 * class PistolAimingState extends PistolState {
+	 *   override onStopUse(): void {
+	 *     this.owner.machine.transition("idle");
+	 *   }
+	 * }
+	 *
+	 * class Pistol extends StateDrivenHookedItem<PistolState> {
+	 *   // Declared before the machine, which assigns the initial state
+	 *   override state!: PistolState;
+	 *   readonly machine: StateMachineInstance<PistolStateName, Pistol> = this.useStateMachine(
+	 *     pistolStates,
+	 *     (name) => {
+	 *       switch (name) {
+	 *         case "idle":
+	 *           return new PistolIdleState(this);
+	 *         case "aiming":
+	 *           return new PistolAimingState(this);
+	 *         case "reloading":
+	 *           return new PistolReloadingState(this);
+	 *       }
+	 *     },
+	 *   );
+	 * }
+	 * ```
+	 */
+	protected useStateMachine<
+		TStateName extends string,
+		TContext extends StateDrivenHookedItem<TState>,
+	>(
+		this: NoInfer<TContext>,
+		definition: StateMachineDefinition<TStateName, TContext>,
+		createState: (name: TStateName) => TState,
+	): StateMachineInstance<TStateName, TContext> {
+		const machine = definition.create(this);
+
+		// Not a listener of machine.events, so that entered states can transition the machine again
+		machine.onEntered = ({ to, cause }) => this.changeState(createState(to), cause);
+		this.stateMachine = machine;
+
+		this.runner.changeState(createState(machine.state));
+
+		return machine;
+	}
+
+	/**
+	 * Keeps {@link state} and the runner in sync. Subclasses assign the initial state to {@link state} directly,
+	 * and the runner assigns {@link state} on every transition.
+	 */
+	private syncRunner(): void {
+		if (!this.runner.hasState || this.runner.state !== this.state) {
+			this.runner.state = this.state;
+		}
 	}
 
 	override onDelete(): void {
-		this.state.onDelete();
+		for (const state of this.state.getPath().reverse()) {
+			state.onDelete();
+		}
 	}
 
 	override onTick(currentItemStack: mc.ItemStack): void {
-		this.state.update(currentItemStack);
+		this.syncRunner();
+		this.runner.tick(currentItemStack);
+		this.stateMachine?.tick();
 	}
 
 	override canUse(e: mc.ItemStartUseAfterEvent): boolean {
@@ -148,8 +398,28 @@ export abstract class StateDrivenHookedItem<TState extends HookedItemState = Hoo
 		this.state.onStartUse(e);
 	}
 
-	override onStopUse(e: mc.ItemStopUseAfterEvent): void {
-		this.state.onStopUse(e);
+	override onStopUse(e: mc.ItemStopUseAfterEvent, charge: number): void {
+		this.state.onStopUse(e, charge);
+	}
+
+	override onUseTick(useTicks: number): void {
+		this.state.onUseTick(useTicks);
+	}
+
+	override onSlotChanged(oldIndex: number, newIndex: number): void {
+		this.state.onSlotChanged(oldIndex, newIndex);
+	}
+
+	override onInputPressed(input: PlayerInput): void {
+		this.state.onInputPressed(input);
+	}
+
+	override onInputReleased(input: PlayerInput, heldTicks: number): void {
+		this.state.onInputReleased(input, heldTicks);
+	}
+
+	override onMultiTap(input: PlayerInput, tapCount: number): void {
+		this.state.onMultiTap(input, tapCount);
 	}
 
 	override onHitEntity(e: mc.EntityHitEntityAfterEvent): void {
@@ -167,4 +437,48 @@ export abstract class StateDrivenHookedItem<TState extends HookedItemState = Hoo
 	override onHurt(e: mc.EntityHurtAfterEvent): void {
 		this.state.onHurt(e);
 	}
+
+	override onUse(e: mc.ItemUseAfterEvent): void {
+		this.state.onUse(e);
+	}
+
+	override onCompleteUse(e: mc.ItemCompleteUseAfterEvent): void {
+		this.state.onCompleteUse(e);
+	}
+
+	override onReleaseUse(e: mc.ItemReleaseUseAfterEvent): void {
+		this.state.onReleaseUse(e);
+	}
+
+	override onInteractWithBlock(e: mc.PlayerInteractWithBlockAfterEvent): void {
+		this.state.onInteractWithBlock(e);
+	}
+
+	override onInteractWithEntity(e: mc.PlayerInteractWithEntityAfterEvent): void {
+		this.state.onInteractWithEntity(e);
+	}
+
+	override onProjectileHitEntity(e: mc.ProjectileHitEntityAfterEvent): void {
+		this.state.onProjectileHitEntity(e);
+	}
+
+	override onProjectileHitBlock(e: mc.ProjectileHitBlockAfterEvent): void {
+		this.state.onProjectileHitBlock(e);
+	}
+
+	override onBeforeUse(e: mc.ItemUseBeforeEvent): void {
+		this.state.onBeforeUse(e);
+	}
+
+	override onBeforeBreakBlock(e: mc.PlayerBreakBlockBeforeEvent): void {
+		this.state.onBeforeBreakBlock(e);
+	}
+
+	override onBeforeInteractWithBlock(e: mc.PlayerInteractWithBlockBeforeEvent): void {
+		this.state.onBeforeInteractWithBlock(e);
+	}
+
+	override onBeforeInteractWithEntity(e: mc.PlayerInteractWithEntityBeforeEvent): void {
+		this.state.onBeforeInteractWithEntity(e);
+	}
 }
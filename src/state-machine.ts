@@ -0,0 +1,838 @@
+import type * as mc from "@minecraft/server";
+import * as console from "./console.js";
+import { EventEmitter, type EventMap } from "./event-emitter.js";
+import type { StateMachine } from "./state-driven-hooked-item.js";
+
+/**
+ * Custom error class for state machine errors
+ */
+export class StateMachineError extends Error {
+	constructor(
+		message: string,
+		public readonly context?: Record<string, any>,
+	) {
+		super(message);
+		this.name = "StateMachineError";
+	}
+}
+
+/**
+ * Callbacks of a state declared with {@link StateMachineDefinition.state}.
+ */
+export interface StateDefinitionConfig<TStateName extends string, TContext> {
+	/** Called after the machine entered the state. `from` is `undefined` for the initial state. */
+	onEnter?: (context: TContext, from: TStateName | undefined) => void;
+	/** Called before the machine leaves the state. */
+	onExit?: (context: TContext, to: TStateName) => void;
+	/** Called on every {@link StateMachineInstance.tick} while the state is active. */
+	onTick?: (context: TContext, ticksInState: number) => void;
+}
+
+/**
+ * Options of a transition declared with {@link StateMachineDefinition.transition}.
+ */
+export interface TransitionDefinitionConfig<TStateName extends string, TContext> {
+	/** The transition is only allowed when this returns `true`. */
+	guard?: (context: TContext, from: TStateName, to: TStateName) => boolean;
+	/** Called between the `onExit` of the previous state and the `onEnter` of the next state. */
+	onTransition?: (context: TContext, from: TStateName, to: TStateName) => void;
+}
+
+/**
+ * Options of a transition declared with {@link StateMachineDefinition.autoTransition}.
+ * At least one of `afterTicks` and `when` must be set. When both are set, both must be met.
+ */
+export interface AutoTransitionDefinitionConfig<
+	TStateName extends string,
+	TContext,
+> extends TransitionDefinitionConfig<TStateName, TContext> {
+	/** Transition once the state has been active for this many ticks. */
+	afterTicks?: number;
+	/** Transition once this returns `true`. Checked on every tick. */
+	when?: (context: TContext, ticksInState: number) => boolean;
+}
+
+/**
+ * A transition recorded in {@link StateMachineInstance.history}.
+ */
+export interface StateTransitionRecord<TStateName extends string = string> {
+	readonly from: TStateName;
+	readonly to: TStateName;
+	/** Value of {@link StateMachineInstance.totalTicks} when the transition happened. */
+	readonly tick: number;
+	/** Number of ticks the machine spent in `from`. */
+	readonly ticksInPreviousState: number;
+	/** Why the transition happened, e.g. `"manual"` or `"auto"`. */
+	readonly cause: string;
+}
+
+/**
+ * Events emitted by {@link StateMachineInstance.events}.
+ */
+export interface StateMachineInstanceEvents<TStateName extends string = string> {
+	/**
+	 * Emitted after the previous state exited, before the next state enters.
+	 * Listeners cannot transition the machine. Transition from the `onEnter` of the next state instead.
+	 */
+	transition: StateTransitionRecord<TStateName>;
+}
+
+/**
+ * Source states of a transition. `"*"` matches any state.
+ */
+export type TransitionSource<TStateName extends string> = TStateName | readonly TStateName[] | "*";
+
+interface TransitionDefinition<TStateName extends string, TContext> {
+	from?: ReadonlySet<TStateName>; // undefined matches any state
+	to: TStateName;
+	guard?: (context: TContext, from: TStateName, to: TStateName) => boolean;
+	onTransition?: (context: TContext, from: TStateName, to: TStateName) => void;
+	afterTicks?: number;
+	when?: (context: TContext, ticksInState: number) => boolean;
+	isAuto: boolean;
+}
+
+/**
+ * Declares the states and allowed transitions of a state machine.
+ * A definition can be shared, and each {@link create} call returns an independent machine.
+ *
+ * @template TStateName - Union of state names
+ * @template TContext - Type of the object passed to callbacks, e.g. the hooked item that owns the machine
+ *
+ * @example
+ * ```typescript
+ * type PistolStateName = "idle" | "aiming" | "reloading";
+ *
+ * const pistolStates = new StateMachineDefinition<PistolStateName, Pistol>()
+ *   .state("idle")
+ *   .state("aiming", { onEnter: (pistol) => pistol.player.sendMessage("Aiming") })
+ *   .state("reloading", { onEnter: (pistol) => pistol.startReload() })
+ *   .initial("idle")
+ *   .transition("idle", "aiming", { guard: (pistol) => pistol.ammo > 0 })
+ *   .transition("aiming", "idle")
+ *   .transition(["idle", "aiming"], "reloading")
+ *   .autoTransition("reloading", "idle", { afterTicks: 40 });
+ *
+ * const machine = pistolStates.create(pistol);
+ * machine.transition("aiming"); // false when out of ammo
+ * machine.tick();
+ * ```
+ */
+export class StateMachineDefinition<TStateName extends string, TContext = void> {
+	private readonly states = new Map<TStateName, StateDefinitionConfig<TStateName, TContext>>();
+	private readonly transitions: TransitionDefinition<TStateName, TContext>[] = [];
+	private readonly transitionListeners: ((
+		context: TContext,
+		record: StateTransitionRecord<TStateName>,
+	) => void)[] = [];
+	private initialState?: TStateName;
+	private maxHistoryLength = 10;
+
+	/**
+	 * Declares a state. The first declared state is the initial state unless {@link initial} is called.
+	 * @throws {StateMachineError} When the state is already declared.
+	 */
+	state(name: TStateName, config: StateDefinitionConfig<TStateName, TContext> = {}): this {
+		if (this.states.has(name)) {
+			throw new StateMachineError(`State "${name}" is already declared`, { state: name });
+		}
+
+		this.states.set(name, config);
+		this.initialState ??= name;
+		return this;
+	}
+
+	/**
+	 * Sets the state that the machine starts in.
+	 */
+	initial(name: TStateName): this {
+		this.initialState = name;
+		return this;
+	}
+
+	/**
+	 * Allows transitioning from `from` to `to` with {@link StateMachineInstance.transition}.
+	 */
+	transition(
+		from: TransitionSource<TStateName>,
+		to: TStateName,
+		config: TransitionDefinitionConfig<TStateName, TContext> = {},
+	): this {
+		this.transitions.push({ ...config, from: toSourceSet(from), to, isAuto: false });
+		return this;
+	}
+
+	/**
+	 * Declares a transition that {@link StateMachineInstance.tick} takes by itself
+	 * once its conditions are met. It can also be taken manually.
+	 * @throws {StateMachineError} When neither `afterTicks` nor `when` is set.
+	 */
+	autoTransition(
+		from: TransitionSource<TStateName>,
+		to: TStateName,
+		config: AutoTransitionDefinitionConfig<TStateName, TContext>,
+	): this {
+		if (config.afterTicks === undefined && config.when === undefined) {
+			throw new StateMachineError("Auto transition requires afterTicks or when", { from, to });
+		}
+
+		if (
+			config.afterTicks !== undefined &&
+			(!Number.isInteger(config.afterTicks) || config.afterTicks < 0)
+		) {
+			throw new StateMachineError("afterTicks must be a non-negative integer", {
+				afterTicks: config.afterTicks,
+			});
+		}
+
+		this.transitions.push({ ...config, from: toSourceSet(from), to, isAuto: true });
+		return this;
+	}
+
+	/**
+	 * Adds a callback that is called after every transition of every machine created from this definition.
+	 */
+	onTransition(
+		callback: (context: TContext, record: StateTransitionRecord<TStateName>) => void,
+	): this {
+		this.transitionListeners.push(callback);
+		return this;
+	}
+
+	/**
+	 * Sets how many transitions each machine keeps in {@link StateMachineInstance.history}. Defaults to `10`.
+	 */
+	historyLimit(limit: number): this {
+		if (!Number.isInteger(limit) || limit < 0) {
+			throw new StateMachineError("History limit must be a non-negative integer", { limit });
+		}
+
+		this.maxHistoryLength = limit;
+		return this;
+	}
+
+	/**
+	 * Creates a machine from this definition and enters the initial state.
+	 * @param context - Object passed to all callbacks
+	 * @throws {StateMachineError} When the definition is invalid.
+	 */
+	create(context: TContext): StateMachineInstance<TStateName, TContext> {
+		this.validate();
+
+		return StateMachineInstance.fromDefinition(
+			{
+				states: this.states,
+				transitions: this.transitions,
+				transitionListeners: this.transitionListeners,
+				initialState: this.initialState!,
+				maxHistoryLength: this.maxHistoryLength,
+			},
+			context,
+		);
+	}
+
+	private validate(): void {
+		if (this.initialState === undefined) {
+			throw new StateMachineError("State machine has no states");
+		}
+
+		if (!this.states.has(this.initialState)) {
+			throw new StateMachineError(`Initial state "${this.initialState}" is not declared`, {
+				state: this.initialState,
+			});
+		}
+
+		for (const transition of this.transitions) {
+			for (const name of [...(transition.from ?? []), transition.to]) {
+				if (!this.states.has(name)) {
+					throw new StateMachineError(`Transition references undeclared state "${name}"`, {
+						state: name,
+						to: transition.to,
+					});
+				}
+			}
+		}
+	}
+}
+
+const toSourceSet = <TStateName extends string>(
+	from: TransitionSource<TStateName>,
+): ReadonlySet<TStateName> | undefined => {
+	if (from === "*") return undefined;
+	return new Set(typeof from === "string" ? [from as TStateName] : from);
+};
+
+interface ResolvedDefinition<TStateName extends string, TContext> {
+	readonly states: ReadonlyMap<TStateName, StateDefinitionConfig<TStateName, TContext>>;
+	readonly transitions: readonly TransitionDefinition<TStateName, TContext>[];
+	readonly transitionListeners: readonly ((
+		context: TContext,
+		record: StateTransitionRecord<TStateName>,
+	) => void)[];
+	readonly initialState: TStateName;
+	readonly maxHistoryLength: number;
+}
+
+/**
+ * A running state machine created with {@link StateMachineDefinition.create}.
+ */
+export class StateMachineInstance<
+	TStateName extends string,
+	TContext = void,
+> implements StateMachine<TStateName> {
+	private currentState: TStateName;
+	private _ticksInState = 0;
+	private _totalTicks = 0;
+	private isExiting = false;
+	private readonly _history: StateTransitionRecord<TStateName>[] = [];
+
+	/** Emits the transitions of this machine only, unlike {@link StateMachineDefinition.onTransition}. */
+	readonly events = new EventEmitter<StateMachineInstanceEvents<TStateName>>();
+
+	/** Records every transition of this machine when set. */
+	tracer?: StateMachineTracer;
+
+	/**
+	 * Called at the end of a transition, after the next state entered.
+	 * Unlike listeners of {@link events}, it may transition again. Used by `StateDrivenHookedItem`.
+	 * @internal
+	 */
+	onEntered?: (record: StateTransitionRecord<TStateName>) => void;
+
+	private constructor(
+		private readonly definition: ResolvedDefinition<TStateName, TContext>,
+		readonly context: TContext,
+	) {
+		this.currentState = definition.initialState;
+		definition.states.get(this.currentState)?.onEnter?.(context, undefined);
+	}
+
+	/**
+	 * Creates a machine and enters the initial state. Use {@link StateMachineDefinition.create} instead.
+	 * @internal
+	 */
+	static fromDefinition<TStateName extends string, TContext>(
+		definition: ResolvedDefinition<TStateName, TContext>,
+		context: TContext,
+	): StateMachineInstance<TStateName, TContext> {
+		return new StateMachineInstance(definition, context);
+	}
+
+	/** The current state. */
+	get state(): TStateName {
+		return this.currentState;
+	}
+
+	/** Number of ticks the current state has been active. */
+	get ticksInState(): number {
+		return this._ticksInState;
+	}
+
+	/** Number of times {@link tick} has been called. */
+	get totalTicks(): number {
+		return this._totalTicks;
+	}
+
+	/** The most recent transitions, oldest first. */
+	get history(): readonly StateTransitionRecord<TStateName>[] {
+		return this._history;
+	}
+
+	/** Whether the current state is `name`. */
+	is(name: TStateName): boolean {
+		return this.currentState === name;
+	}
+
+	/** Whether a declared transition from the current state to `to` exists and its guard passes. */
+	canTransition(to: TStateName): boolean {
+		return this.findTransition(to) !== undefined;
+	}
+
+	/**
+	 * Transitions to `to` if a declared transition from the current state allows it.
+	 * @param cause - Recorded in {@link history}. Defaults to `"manual"`.
+	 * @returns Whether the transition happened.
+	 * @throws {StateMachineError} When called from an `onExit` or `onTransition` callback.
+	 */
+	transition(to: TStateName, cause = "manual"): boolean {
+		const transition = this.findTransition(to);
+		if (!transition) return false;
+
+		this.performTransition(transition, cause);
+		return true;
+	}
+
+	/**
+	 * Same as {@link transition}, but throws when the transition is not allowed.
+	 * @throws {StateMachineError} When the transition is not allowed.
+	 */
+	changeState(newState: TStateName): void {
+		if (!this.transition(newState)) {
+			throw new StateMachineError(
+				`Transition from "${this.currentState}" to "${newState}" is not allowed`,
+				{ from: this.currentState, to: newState },
+			);
+		}
+	}
+
+	/**
+	 * Calls `onTick` of the current state, then takes the first auto transition whose conditions are met.
+	 */
+	tick(): void {
+		this.definition.states.get(this.currentState)?.onTick?.(this.context, this._ticksInState);
+		this._ticksInState++;
+		this._totalTicks++;
+
+		const transition = this.definition.transitions.find((transition) =>
+			this.canAutoTransition(transition),
+		);
+		if (transition) this.performTransition(transition, "auto");
+	}
+
+	private canAutoTransition(transition: TransitionDefinition<TStateName, TContext>): boolean {
+		if (!transition.isAuto || !this.matchesSource(transition)) return false;
+		if (transition.afterTicks !== undefined && this._ticksInState < transition.afterTicks) {
+			return false;
+		}
+		if (transition.when && !transition.when(this.context, this._ticksInState)) return false;
+		return !transition.guard || transition.guard(this.context, this.currentState, transition.to);
+	}
+
+	private matchesSource(transition: TransitionDefinition<TStateName, TContext>): boolean {
+		return transition.from === undefined || transition.from.has(this.currentState);
+	}
+
+	private findTransition(to: TStateName): TransitionDefinition<TStateName, TContext> | undefined {
+		return this.definition.transitions.find(
+			(transition) =>
+				transition.to === to &&
+				this.matchesSource(transition) &&
+				(!transition.guard || transition.guard(this.context, this.currentState, to)),
+		);
+	}
+
+	private performTransition(
+		transition: TransitionDefinition<TStateName, TContext>,
+		cause: string,
+	): void {
+		if (this.isExiting) {
+			throw new StateMachineError("Cannot transition while the current state is exiting", {
+				from: this.currentState,
+				to: transition.to,
+			});
+		}
+
+		const from = this.currentState;
+		const to = transition.to;
+		const record: StateTransitionRecord<TStateName> = {
+			from,
+			to,
+			tick: this._totalTicks,
+			ticksInPreviousState: this._ticksInState,
+			cause,
+		};
+
+		this.isExiting = true;
+		try {
+			this.definition.states.get(from)?.onExit?.(this.context, to);
+			transition.onTransition?.(this.context, from, to);
+		} finally {
+			this.isExiting = false;
+		}
+
+		this.currentState = to;
+		this._ticksInState = 0;
+
+		this._history.push(record);
+		if (this._history.length > this.definition.maxHistoryLength) {
+			this._history.shift();
+		}
+		this.tracer?.record(record);
+
+		for (const listener of this.definition.transitionListeners) {
+			listener(this.context, record);
+		}
+		this.events.emit("transition", record);
+
+		this.definition.states.get(to)?.onEnter?.(this.context, from);
+
+		// Skipped when onEnter already moved on, since that transition reported its own state
+		if (this.currentState === to) this.onEntered?.(record);
+	}
+}
+
+/**
+ * Base class for the states of a {@link StateMachineRunner}.
+ *
+ * States can be nested by passing a parent state to the constructor.
+ * Events that a state does not handle bubble up to its parent.
+ * `onEnter`, `onExit` and `onTick` are called on each level separately and never bubble.
+ *
+ * @template TContext - Object shared by the states, e.g. the entity that the machine belongs to
+ * @template TEvents - Map of event names to payload types
+ * @template TTickArgs - Arguments of {@link StateMachineRunner.tick}
+ */
+export abstract class MachineState<
+	TContext,
+	TEvents extends EventMap = {},
+	TTickArgs extends unknown[] = [],
+> {
+	private _currentTick = 0;
+
+	/**
+	 * @param context - Object shared by the states.
+	 * @param parent - The state that contains this state. Events this state does not handle bubble up to it.
+	 */
+	constructor(
+		public readonly context: TContext,
+		public readonly parent?: MachineState<TContext, TEvents, TTickArgs>,
+	) {}
+
+	/** Gets the number of ticks this state has been active. Each level of nested states counts separately. */
+	get currentTick(): number {
+		return this._currentTick;
+	}
+
+	/**
+	 * Name of the state in traces. Defaults to the class name.
+	 * Override it when the class names are minified by a bundler.
+	 */
+	get stateName(): string {
+		return this.constructor.name;
+	}
+
+	/** Gets this state and its parents, outermost first. */
+	getPath(): MachineState<TContext, TEvents, TTickArgs>[] {
+		const path: MachineState<TContext, TEvents, TTickArgs>[] = [];
+		for (
+			let state: MachineState<TContext, TEvents, TTickArgs> | undefined = this;
+			state;
+			state = state.parent
+		) {
+			path.unshift(state);
+		}
+		return path;
+	}
+
+	/** Whether `state` is this state or one of its parents. */
+	isWithin(state: MachineState<TContext, TEvents, TTickArgs>): boolean {
+		return this.getPath().includes(state);
+	}
+
+	/**
+	 * Resets {@link currentTick} when the state is entered.
+	 * Should be called by the state machine before `onEnter()`.
+	 * @sealed
+	 */
+	resetTick(): void {
+		this._currentTick = 0;
+	}
+
+	/**
+	 * Dispatches the tick event and manages the internal tick count.
+	 * Should be called by the state machine.
+	 * @sealed
+	 */
+	update(...args: TTickArgs): void {
+		this.onTick(...args);
+		this._currentTick++;
+	}
+
+	/** Called when the state enters. */
+	onEnter(): void {}
+
+	/** Called when the state exits. */
+	onExit(): void {}
+
+	/**
+	 * Logic for the state to perform on each tick.
+	 * Subclasses should override this method.
+	 */
+	onTick(...args: TTickArgs): void {}
+
+	/**
+	 * Handles an event sent with {@link StateMachineRunner.dispatch}.
+	 * @returns `true` if the event was handled. Otherwise it bubbles up to the parent state.
+	 */
+	handle<K extends keyof TEvents>(event: K, payload: TEvents[K]): boolean {
+		return false;
+	}
+}
+
+/**
+ * Events emitted by {@link StateMachineRunner.events}.
+ */
+export interface StateMachineRunnerEvents<TState> {
+	/** Emitted after the previous state exited, before the next state enters. */
+	transition: { readonly from: TState | undefined; readonly to: TState; readonly cause: string };
+}
+
+/**
+ * Runs a machine of {@link MachineState} objects, e.g. for entity AI, boss phases or minigame rounds.
+ * Supports nested states: transitions only exit and enter the levels that change,
+ * and events bubble from the current state up to its parents until one handles them.
+ *
+ * @example
+ * ```typescript
+ * interface BossEvents {
+ *   hurt: { damage: number };
+ * }
+ *
+ * abstract class BossPhase extends MachineState<Boss, BossEvents> {}
+ *
+ * class RagePhase extends BossPhase {
+ *   override onEnter(): void {
+ *     this.context.entity.addEffect("strength", 200);
+ *   }
+ * }
+ *
+ * class CalmPhase extends BossPhase {
+ *   override handle<K extends keyof BossEvents>(event: K, payload: BossEvents[K]): boolean {
+ *     if (event !== "hurt" || this.context.health > 100) return false;
+ *     runner.changeState(new RagePhase(this.context));
+ *     return true;
+ *   }
+ * }
+ *
+ * const runner = new StateMachineRunner<Boss, BossEvents>(new CalmPhase(boss));
+ * system.runInterval(() => runner.tick());
+ * runner.dispatch("hurt", { damage: 10 });
+ * ```
+ */
+export class StateMachineRunner<
+	TContext,
+	TEvents extends EventMap = {},
+	TTickArgs extends unknown[] = [],
+	TState extends MachineState<TContext, TEvents, TTickArgs> = MachineState<
+		TContext,
+		TEvents,
+		TTickArgs
+	>,
+> implements StateMachine<TState> {
+	private currentState?: TState;
+	private _totalTicks = 0;
+
+	readonly events = new EventEmitter<StateMachineRunnerEvents<TState>>();
+
+	/**
+	 * Records every transition of this runner when set.
+	 * Nested states are recorded as their path, e.g. `"Equipped/Aiming"`.
+	 */
+	tracer?: StateMachineTracer;
+
+	/**
+	 * @param initialState - State to enter right away. Without it, the first {@link changeState} enters the initial state.
+	 */
+	constructor(initialState?: TState) {
+		if (initialState) this.changeState(initialState);
+	}
+
+	/** Whether the runner has a current state. */
+	get hasState(): boolean {
+		return this.currentState !== undefined;
+	}
+
+	/**
+	 * The current (innermost) state.
+	 * Assigning it replaces the current state without calling `onExit` or `onEnter`.
+	 * @throws {StateMachineError} When read before the runner has a state.
+	 */
+	get state(): TState {
+		if (!this.currentState) throw new StateMachineError("State machine has no state yet");
+		return this.currentState;
+	}
+
+	set state(state: TState) {
+		this.currentState = state;
+	}
+
+	/** Number of times {@link tick} has been called. */
+	get totalTicks(): number {
+		return this._totalTicks;
+	}
+
+	/**
+	 * Transitions to `newState`. With nested states, only the levels that change are exited (innermost first)
+	 * and entered (outermost first). Changing to the current state exits and enters it again.
+	 * @param cause - Recorded by {@link tracer}. Defaults to `"manual"`.
+	 */
+	changeState(newState: TState, cause = "manual"): void {
+		const oldState = this.currentState;
+		const oldPath = oldState?.getPath() ?? [];
+		const newPath = newState.getPath();
+
+		let sharedDepth = 0;
+		while (
+			sharedDepth < oldPath.length &&
+			sharedDepth < newPath.length &&
+			oldPath[sharedDepth] === newPath[sharedDepth]
+		) {
+			sharedDepth++;
+		}
+
+		if (newState === oldState) sharedDepth--;
+
+		for (let i = oldPath.length - 1; i >= sharedDepth; i--) {
+			oldPath[i]!.onExit();
+		}
+
+		this.currentState = newState;
+
+		if (oldState && this.tracer) {
+			this.tracer.record({
+				from: getStatePathName(oldState),
+				to: getStatePathName(newState),
+				tick: this._totalTicks,
+				ticksInPreviousState: oldState.currentTick,
+				cause,
+			});
+		}
+		this.events.emit("transition", { from: oldState, to: newState, cause });
+
+		for (const state of newPath.slice(sharedDepth)) {
+			state.resetTick();
+			state.onEnter();
+		}
+	}
+
+	/**
+	 * Ticks every level of the current state, outermost first.
+	 * Stops early when a level changes the state.
+	 */
+	tick(...args: TTickArgs): void {
+		const state = this.currentState;
+		if (!state) return;
+
+		this._totalTicks++;
+
+		for (const level of state.getPath()) {
+			level.update(...args);
+			if (this.currentState !== state) return;
+		}
+	}
+
+	/**
+	 * Sends an event to the current state. It bubbles up to the parent states until one handles it.
+	 * @returns Whether a state handled the event.
+	 */
+	dispatch<K extends keyof TEvents>(event: K, payload: TEvents[K]): boolean {
+		for (
+			let state: MachineState<TContext, TEvents, TTickArgs> | undefined = this.currentState;
+			state;
+			state = state.parent
+		) {
+			if (state.handle(event, payload)) return true;
+		}
+		return false;
+	}
+}
+
+const getStatePathName = (state: MachineState<any, any, any>): string =>
+	state
+		.getPath()
+		.map((level) => level.stateName)
+		.join("/");
+
+/**
+ * Records the most recent state transitions in a ring buffer, for debugging misbehaving machines.
+ * Assign it to the `tracer` of a {@link StateMachineInstance}, a {@link StateMachineRunner}
+ * or a `StateDrivenHookedItem`. One tracer can be shared by several machines.
+ *
+ * @example
+ * ```typescript
+ * const tracer = new StateMachineTracer(20, "pistol");
+ * pistol.tracer = tracer;
+ *
+ * system.runInterval(() => tracer.showOnActionBar(player));
+ * // [pistol] tick 120: Equipped/Idle -> Equipped/Aiming (manual, 35 ticks in Equipped/Idle)
+ *
+ * tracer.print(); // Prints all recorded transitions to the console
+ * ```
+ */
+export class StateMachineTracer {
+	private readonly buffer: StateTransitionRecord[] = [];
+	private nextIndex = 0;
+
+	/**
+	 * @param capacity - Maximum number of recorded transitions. The oldest ones are overwritten first.
+	 * @param label - Prefix of formatted transitions, e.g. the name of the machine.
+	 * @throws {StateMachineError} When capacity is not a positive integer.
+	 */
+	constructor(
+		readonly capacity = 32,
+		readonly label?: string,
+	) {
+		if (!Number.isInteger(capacity) || capacity <= 0) {
+			throw new StateMachineError("Tracer capacity must be a positive integer", { capacity });
+		}
+	}
+
+	/** Number of recorded transitions. */
+	get size(): number {
+		return this.buffer.length;
+	}
+
+	/** Records a transition, overwriting the oldest one when full. */
+	record(record: StateTransitionRecord): void {
+		if (this.buffer.length < this.capacity) {
+			this.buffer.push(record);
+		} else {
+			this.buffer[this.nextIndex] = record;
+		}
+		this.nextIndex = (this.nextIndex + 1) % this.capacity;
+	}
+
+	/**
+	 * Gets the recorded transitions, oldest first.
+	 * @param limit - Only get the most recent ones.
+	 */
+	getEntries(limit = this.capacity): StateTransitionRecord[] {
+		const entries =
+			this.buffer.length < this.capacity
+				? [...this.buffer]
+				: [...this.buffer.slice(this.nextIndex), ...this.buffer.slice(0, this.nextIndex)];
+		return limit >= entries.length ? entries : entries.slice(entries.length - limit);
+	}
+
+	/** Gets the most recent transition. */
+	getLatest(): StateTransitionRecord | undefined {
+		return this.getEntries(1)[0];
+	}
+
+	/** Removes all recorded transitions. */
+	clear(): void {
+		this.buffer.length = 0;
+		this.nextIndex = 0;
+	}
+
+	/**
+	 * Formats a transition as a single line,
+	 * e.g. `"tick 120: Idle -> Aiming (manual, 35 ticks in Idle)"`.
+	 */
+	format(record: StateTransitionRecord): string {
+		const prefix = this.label ? `[${this.label}] ` : "";
+		return (
+			`${prefix}tick ${record.tick}: ${record.from} -> ${record.to} ` +
+			`(${record.cause}, ${record.ticksInPreviousState} ticks in ${record.from})`
+		);
+	}
+
+	/**
+	 * Prints the recorded transitions with the `console` module, oldest first.
+	 * @param limit - Only print the most recent ones.
+	 */
+	print(limit?: number): void {
+		for (const record of this.getEntries(limit)) {
+			console.log(this.format(record));
+		}
+	}
+
+	/**
+	 * Shows the most recent transitions on the action bar of a player, for live debugging.
+	 * @param limit - Number of transitions to show. Defaults to `3`.
+	 */
+	showOnActionBar(player: mc.Player, limit = 3): void {
+		const lines = this.getEntries(limit).map((record) => this.format(record));
+		player.onScreenDisplay.setActionBar(lines.length > 0 ? lines.join("\n") : "No transitions");
+	}
+}
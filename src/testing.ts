@@ -0,0 +1,7 @@
+// Entry point for running item hooks outside of the game, e.g. in Node tests.
+// Import it as `@lc-studios-mc/scripting-utils/testing`.
+// Only modules that do not import `@minecraft/server` at runtime may be exported here.
+export * from "./item-hook-engine.js";
+export * from "./item-hook-testing.js";
+export * from "./item-hook.js";
+export * from "./player-input.js";
@@ -0,0 +1,441 @@
+import { TimelineError, type TimelineLike } from "./timeline.js";
+
+interface CompositeEntry<TArgs> {
+	timeline: TimelineLike<TArgs>;
+	offset: number;
+	lastLocalTick?: number; // undefined until the child has been processed or seeked
+	isSeekPending?: boolean; // set by seek(), so that the next process() triggers the events at the seeked tick
+}
+
+interface MarkerWaiter {
+	tick: number;
+	resolve: () => void;
+}
+
+/**
+ * Timeline that is built from other timelines placed at offsets.
+ * It has the same API as {@link Timeline}, and its duration is computed from its children.
+ *
+ * Children are processed in the order they were added. When `process()` jumps over several children
+ * at once, all events of one child run before the events of the next one.
+ * A child is only processed when its local tick changes or after `seek()`,
+ * so finished children stay untouched.
+ * Each timeline instance can only be placed once, including inside nested composites,
+ * since a timeline keeps track of its executed events.
+ *
+ * @template TArgs - Type of arguments passed to timeline events
+ *
+ * @example
+ * ```typescript
+ * // intro, then a 10 tick pause, then the attack and its sound effects at the same time
+ * const bossAttack = CompositeTimeline.sequence(
+ *   intro,
+ *   10,
+ *   CompositeTimeline.parallel(attack, attackSounds),
+ * );
+ *
+ * // Nest a muzzle flash inside the reload animation, starting at tick 5
+ * const reloadWithFlash = CompositeTimeline.nest(reload, muzzleFlash, 5);
+ *
+ * bossAttack.getDuration(); // intro + 10 + the longer one of attack and attackSounds
+ * new TimelinePlayer(bossAttack, { boss }).play();
+ * ```
+ */
+export class CompositeTimeline<TArgs = any> implements TimelineLike<TArgs> {
+	private readonly entries: CompositeEntry<TArgs>[];
+	private readonly duration: number;
+	private readonly markers = new Map<string, number>();
+	private markerWaiters: MarkerWaiter[] = [];
+	private lastProcessedTick = -1;
+	/** Children and their descendants, used to reject a timeline that is placed more than once */
+	private readonly timelines = new Set<TimelineLike<TArgs>>();
+
+	/**
+	 * Creates a new composite timeline
+	 *
+	 * @param children - Timelines and the tick at which each of them starts
+	 * @param minDuration - Minimum duration in ticks, e.g. to keep a trailing pause
+	 * @throws {TimelineError} When validation fails, or when a timeline instance is placed more than once
+	 */
+	constructor(
+		children: readonly { timeline: TimelineLike<TArgs>; offset: number }[],
+		minDuration = 0,
+	) {
+		if (!Number.isFinite(minDuration) || minDuration < 0) {
+			throw new TimelineError("Minimum duration must be a non-negative finite number", {
+				minDuration,
+			});
+		}
+
+		this.entries = children.map(({ timeline, offset }, index) => {
+			if (!Number.isFinite(offset) || offset < 0) {
+				throw new TimelineError(`Offset must be a non-negative finite number for child ${index}`, {
+					childIndex: index,
+					offset,
+				});
+			}
+
+			const descendants = timeline instanceof CompositeTimeline ? timeline.timelines : [];
+			for (const placed of [timeline, ...descendants]) {
+				if (this.timelines.has(placed)) {
+					throw new TimelineError(
+						`Timeline of child ${index} is already placed in this composite. Create a separate instance for each placement`,
+						{
+							childIndex: index,
+							offset,
+						},
+					);
+				}
+				this.timelines.add(placed);
+			}
+
+			return { timeline, offset };
+		});
+
+		this.duration = Math.max(
+			minDuration,
+			...this.entries.map((entry) => entry.offset + entry.timeline.getDuration()),
+		);
+
+		if (this.duration <= 0) {
+			throw new TimelineError("Composite timeline duration must be positive", {
+				childCount: this.entries.length,
+				minDuration,
+			});
+		}
+
+		// The first occurrence of a marker name wins
+		for (const entry of this.entries) {
+			for (const marker of entry.timeline.getMarkers()) {
+				if (!this.markers.has(marker.name)) {
+					this.markers.set(marker.name, entry.offset + marker.tick);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Runs timelines one after another. A number adds a pause of that many ticks.
+	 *
+	 * @param items - Timelines and pauses in the order they run
+	 * @throws {TimelineError} When validation fails
+	 */
+	static sequence<TArgs = any>(
+		...items: readonly (TimelineLike<TArgs> | number)[]
+	): CompositeTimeline<TArgs> {
+		const children: { timeline: TimelineLike<TArgs>; offset: number }[] = [];
+		let offset = 0;
+
+		for (const [index, item] of items.entries()) {
+			if (typeof item === "number") {
+				if (!Number.isFinite(item) || item < 0) {
+					throw new TimelineError(`Pause must be a non-negative finite number at index ${index}`, {
+						index,
+						pause: item,
+					});
+				}
+
+				offset += item;
+				continue;
+			}
+
+			children.push({ timeline: item, offset });
+			offset += item.getDuration();
+		}
+
+		return new CompositeTimeline(children, offset);
+	}
+
+	/**
+	 * Runs timelines at the same time. The duration is the one of the longest timeline.
+	 *
+	 * @param timelines - Timelines that all start at tick 0
+	 * @throws {TimelineError} When validation fails
+	 */
+	static parallel<TArgs = any>(
+		...timelines: readonly TimelineLike<TArgs>[]
+	): CompositeTimeline<TArgs> {
+		return new CompositeTimeline(timelines.map((timeline) => ({ timeline, offset: 0 })));
+	}
+
+	/**
+	 * Delays a timeline by a number of ticks.
+	 *
+	 * @param ticks - Ticks to wait before the timeline starts
+	 * @param timeline - Timeline to delay
+	 * @throws {TimelineError} When validation fails
+	 */
+	static delay<TArgs = any>(
+		ticks: number,
+		timeline: TimelineLike<TArgs>,
+	): CompositeTimeline<TArgs> {
+		return new CompositeTimeline([{ timeline, offset: ticks }]);
+	}
+
+	/**
+	 * Places a timeline inside another one, starting at an offset.
+	 * The duration grows when the nested timeline ends after the parent.
+	 *
+	 * @param parent - Timeline that starts at tick 0
+	 * @param child - Timeline to nest
+	 * @param offset - Tick of the parent at which the child starts
+	 * @throws {TimelineError} When validation fails
+	 */
+	static nest<TArgs = any>(
+		parent: TimelineLike<TArgs>,
+		child: TimelineLike<TArgs>,
+		offset: number,
+	): CompositeTimeline<TArgs> {
+		return new CompositeTimeline([
+			{ timeline: parent, offset: 0 },
+			{ timeline: child, offset },
+		]);
+	}
+
+	/**
+	 * Advances all children and executes events that should trigger.
+	 * Children that have not started yet are reset, e.g. after the timeline moves backwards.
+	 *
+	 * @param tick - Current time position in ticks
+	 * @param args - Arguments to pass to event functions
+	 * @throws {TimelineError} When tick is invalid or event execution fails
+	 */
+	process(tick: number, args: TArgs): void {
+		const currentTick = this.clampTick(tick);
+		// Moving backwards starts a new pass, like the reset of a Timeline
+		const previousTick = currentTick < this.lastProcessedTick ? -1 : this.lastProcessedTick;
+
+		this.forEachChild((entry) => {
+			const localTick = currentTick - entry.offset;
+
+			if (localTick < 0) {
+				if (entry.lastLocalTick !== undefined) {
+					entry.timeline.reset();
+					entry.lastLocalTick = undefined;
+					entry.isSeekPending = false;
+				}
+				return;
+			}
+
+			const clampedLocalTick = Math.min(localTick, entry.timeline.getDuration());
+			if (clampedLocalTick === entry.lastLocalTick && !entry.isSeekPending) return;
+
+			entry.timeline.process(clampedLocalTick, args);
+			entry.lastLocalTick = clampedLocalTick;
+			entry.isSeekPending = false;
+		});
+
+		this.lastProcessedTick = currentTick;
+
+		if (this.markerWaiters.length > 0) {
+			// Markers that were already passed before this call are left for the next pass
+			const isReached = (waiter: MarkerWaiter) =>
+				previousTick < waiter.tick && waiter.tick <= currentTick;
+			const reached = this.markerWaiters.filter(isReached);
+			this.markerWaiters = this.markerWaiters.filter((waiter) => !isReached(waiter));
+			for (const waiter of reached) {
+				waiter.resolve();
+			}
+		}
+	}
+
+	/**
+	 * Moves all children to a tick or marker without executing any events.
+	 * Like with {@link Timeline.seek}, the events at the tick trigger on the next `process()`
+	 *
+	 * @param target - Tick position or marker name to move to
+	 * @throws {TimelineError} When tick is invalid or the marker does not exist
+	 */
+	seek(target: number | string): void {
+		const tick = typeof target === "string" ? this.getMarker(target) : target;
+
+		if (!Number.isFinite(tick)) {
+			throw new TimelineError("Tick must be a finite number", {
+				tick,
+				tickType: typeof tick,
+			});
+		}
+
+		// Not clamped to the durations, so that children that ended before the tick skip their last events
+		const targetTick = Math.max(0, tick);
+
+		this.forEachChild((entry) => {
+			const localTick = targetTick - entry.offset;
+
+			if (localTick < 0) {
+				if (entry.lastLocalTick !== undefined) entry.timeline.reset();
+				entry.lastLocalTick = undefined;
+				entry.isSeekPending = false;
+				return;
+			}
+
+			const duration = entry.timeline.getDuration();
+			entry.timeline.seek(localTick);
+			entry.lastLocalTick = Math.min(localTick, duration);
+			entry.isSeekPending = localTick <= duration;
+		});
+
+		this.lastProcessedTick = Math.min(Math.ceil(targetTick) - 1, this.duration);
+	}
+
+	/**
+	 * Calls the track setters of the children that are running at a tick, without executing any events.
+	 *
+	 * @param tick - Tick position
+	 * @param args - Arguments to pass to the setters
+	 * @throws {TimelineError} When a setter fails
+	 */
+	applyTracks(tick: number, args: TArgs): void {
+		const currentTick = this.clampTick(tick);
+
+		this.forEachChild((entry) => {
+			const localTick = currentTick - entry.offset;
+			if (localTick < 0 || localTick > entry.timeline.getDuration()) return;
+
+			entry.timeline.applyTracks(localTick, args);
+		});
+	}
+
+	/**
+	 * Resets all children to their initial state.
+	 */
+	reset(): void {
+		for (const entry of this.entries) {
+			entry.timeline.reset();
+			entry.lastLocalTick = undefined;
+			entry.isSeekPending = false;
+		}
+
+		this.lastProcessedTick = -1;
+	}
+
+	/**
+	 * Gets the progress as a percentage (0-1)
+	 *
+	 * @param tick - Current tick position
+	 * @returns Progress percentage between 0 and 1
+	 */
+	getCurrentProgress(tick: number): number {
+		if (!Number.isFinite(tick)) {
+			return 0;
+		}
+		return Math.max(0, Math.min(tick, this.duration)) / this.duration;
+	}
+
+	/**
+	 * Checks if the timeline has completed
+	 *
+	 * @param tick - Current tick position
+	 * @returns True if timeline is complete
+	 */
+	isComplete(tick: number): boolean {
+		return Number.isFinite(tick) && tick >= this.duration;
+	}
+
+	/**
+	 * Gets the duration, which is where the last child ends unless a longer minimum duration was given
+	 *
+	 * @returns Duration in ticks
+	 */
+	getDuration(): number {
+		return this.duration;
+	}
+
+	/**
+	 * Gets information about the events of all children, with ticks and percentages of this timeline (for debugging)
+	 *
+	 * @returns Array of all events with their status, sorted by tick
+	 */
+	getAllEvents(): ReadonlyArray<{ percentage: number; tick: number; executed: boolean }> {
+		return this.entries
+			.flatMap((entry) =>
+				entry.timeline.getAllEvents().map((event) => ({
+					percentage: (entry.offset + event.tick) / this.duration,
+					tick: entry.offset + event.tick,
+					executed: event.executed,
+				})),
+			)
+			.sort((a, b) => a.tick - b.tick);
+	}
+
+	/**
+	 * Gets the tick of a marker of a child, offset into this timeline
+	 *
+	 * @param name - Marker name
+	 * @returns Tick of the marker
+	 * @throws {TimelineError} When the marker does not exist
+	 */
+	getMarker(name: string): number {
+		const tick = this.markers.get(name);
+		if (tick === undefined) {
+			throw new TimelineError(`Unknown marker: "${name}"`, {
+				marker: name,
+				availableMarkers: [...this.markers.keys()],
+			});
+		}
+		return tick;
+	}
+
+	/**
+	 * Checks if a marker exists
+	 *
+	 * @param name - Marker name
+	 * @returns True if the marker exists
+	 */
+	hasMarker(name: string): boolean {
+		return this.markers.has(name);
+	}
+
+	/**
+	 * Gets all markers, sorted by tick
+	 *
+	 * @returns Array of marker names and ticks
+	 */
+	getMarkers(): ReadonlyArray<{ name: string; tick: number }> {
+		return [...this.markers]
+			.map(([name, tick]) => ({ name, tick }))
+			.sort((a, b) => a.tick - b.tick);
+	}
+
+	/**
+	 * Waits until `process()` reaches a marker. A marker that was already passed is waited for
+	 * on the next pass, e.g. after the timeline is reset.
+	 *
+	 * @param name - Marker name
+	 * @returns Promise that resolves when the marker is reached
+	 * @throws {TimelineError} When the marker does not exist
+	 */
+	waitForMarker(name: string): Promise<void> {
+		const tick = this.getMarker(name);
+		return new Promise((resolve) => this.markerWaiters.push({ tick, resolve }));
+	}
+
+	private clampTick(tick: number): number {
+		if (!Number.isFinite(tick)) {
+			throw new TimelineError("Tick must be a finite number", {
+				tick,
+				tickType: typeof tick,
+			});
+		}
+		return Math.max(0, Math.min(tick, this.duration));
+	}
+
+	/**
+	 * Runs a callback for each child, adding the child's position to the context of errors it throws.
+	 */
+	private forEachChild(callback: (entry: CompositeEntry<TArgs>) => void): void {
+		for (const [index, entry] of this.entries.entries()) {
+			try {
+				callback(entry);
+			} catch (error) {
+				if (!(error instanceof TimelineError)) throw error;
+
+				throw new TimelineError(error.message, {
+					...error.context,
+					childIndex: index,
+					childOffset: entry.offset,
+				});
+			}
+		}
+	}
+}
@@ -0,0 +1,357 @@
+import * as mc from "@minecraft/server";
+import * as console from "./console.js";
+import { TimelineError, type Timeline, type TimelineLike } from "./timeline.js";
+
+/**
+ * How a {@link TimelinePlayer} continues when it reaches the end of the timeline.
+ * - `"none"`: Completes at the end.
+ * - `"loop"`: Starts over from the beginning.
+ * - `"pingPong"`: Plays backwards to the beginning, then forwards again.
+ *   Events only trigger while playing forwards, while value tracks follow both ways.
+ */
+export type TimelineLoopMode = "none" | "loop" | "pingPong";
+
+/**
+ * Playback state of a {@link TimelinePlayer}.
+ */
+export type TimelinePlayerState = "idle" | "playing" | "paused" | "completed" | "stopped" | "error";
+
+/**
+ * How a playback started with {@link TimelinePlayer.play} ended.
+ * `"error"` means that the timeline threw an error (see {@link TimelinePlayerOptions.onError}).
+ */
+export type TimelinePlaybackResult = "completed" | "stopped" | "error";
+
+/**
+ * Result of {@link TimelinePlayer.whenFinished}. `"idle"` means that there is no playback to wait for.
+ */
+export type TimelineFinishResult = TimelinePlaybackResult | "idle";
+
+/**
+ * Options for {@link TimelinePlayer}.
+ */
+export interface TimelinePlayerOptions {
+	/** Playback speed multiplier. Defaults to `1`. */
+	speed?: number;
+	/** Defaults to `"none"`. */
+	loop?: TimelineLoopMode;
+	/**
+	 * Number of cycles to play before completing. A ping-pong cycle is one forward and one backward pass.
+	 * Defaults to `1` with loop mode `"none"`, which only allows `1`, and to `Infinity` otherwise.
+	 */
+	loopCount?: number;
+	/** Called when the playback completes. */
+	onComplete?: () => void;
+	/** Called when a cycle ends and the next one starts. `cycle` is the number of finished cycles. */
+	onLoop?: (cycle: number) => void;
+	/** Called when the playback is stopped with {@link TimelinePlayer.stop}. */
+	onStop?: () => void;
+	/**
+	 * Called when the timeline throws an error, e.g. from an event. The playback ends right away.
+	 * Defaults to logging the error.
+	 */
+	onError?: (error: unknown) => void;
+}
+
+/**
+ * Plays a {@link Timeline} or a composite timeline by itself, processing it every tick with `system.runInterval`.
+ *
+ * @template TArgs - Type of arguments passed to timeline events
+ *
+ * @example
+ * ```typescript
+ * const reload = new Timeline<{ player: Player }>(40, {
+ *   0.0: ({ player }) => player.playSound("reload.start"),
+ *   1.0: ({ player }) => player.playSound("reload.end"),
+ * });
+ *
+ * const reloadPlayer = new TimelinePlayer(reload, { player }, { speed: 2 });
+ * await reloadPlayer.play(); // Resolves with "completed" after 20 ticks
+ * ```
+ */
+export class TimelinePlayer<TArgs = any> {
+	private _state: TimelinePlayerState = "idle";
+	private _speed: number;
+	private _position = 0;
+	private direction: 1 | -1 = 1;
+	private completedCycles = 0;
+	private runId?: number;
+	private resolvePlayback?: (result: TimelinePlaybackResult) => void;
+	private playback?: Promise<TimelinePlaybackResult>;
+
+	readonly loop: TimelineLoopMode;
+	readonly loopCount: number;
+
+	/**
+	 * @param timeline - Timeline to play
+	 * @param args - Arguments to pass to event functions
+	 * @param options - Playback options
+	 * @throws {TimelineError} When an option is invalid, e.g. a loop count other than `1` with loop mode `"none"`
+	 */
+	constructor(
+		readonly timeline: TimelineLike<TArgs>,
+		private readonly args: TArgs,
+		private readonly options: TimelinePlayerOptions = {},
+	) {
+		this._speed = validateSpeed(options.speed ?? 1);
+		this.loop = options.loop ?? "none";
+		this.loopCount = options.loopCount ?? (this.loop === "none" ? 1 : Infinity);
+
+		if (
+			!(this.loopCount >= 1) ||
+			(Number.isFinite(this.loopCount) && !Number.isInteger(this.loopCount))
+		) {
+			throw new TimelineError("Loop count must be a positive integer or Infinity", {
+				loopCount: this.loopCount,
+			});
+		}
+
+		if (this.loop === "none" && this.loopCount !== 1) {
+			throw new TimelineError('Loop count must be 1 with loop mode "none"', {
+				loop: this.loop,
+				loopCount: this.loopCount,
+			});
+		}
+	}
+
+	/** Current playback state. */
+	get state(): TimelinePlayerState {
+		return this._state;
+	}
+
+	/** Current position in ticks. Can be fractional when the speed is not an integer. */
+	get position(): number {
+		return this._position;
+	}
+
+	/** Whether the player is currently moving backwards in ping-pong mode. */
+	get isReversed(): boolean {
+		return this.direction === -1;
+	}
+
+	/** Playback speed multiplier. `0` holds the current position. */
+	get speed(): number {
+		return this._speed;
+	}
+
+	set speed(value: number) {
+		this._speed = validateSpeed(value);
+	}
+
+	/**
+	 * Starts playing from the current position, which is the beginning unless {@link seek} was called.
+	 * Continues a paused playback, and starts over after the playback ended, unless {@link seek} was called since.
+	 * @returns A promise that resolves when this playback completes, is stopped or fails.
+	 */
+	play(): Promise<TimelinePlaybackResult> {
+		if (this._state === "playing" || this._state === "paused") {
+			this.resume();
+			return this.playback!;
+		}
+
+		// Start from a seeked position, otherwise from a fresh timeline
+		if (this.hasEnded() || this._position === 0) {
+			this.rewind();
+		}
+
+		this.playback = new Promise((resolve) => (this.resolvePlayback = resolve));
+		this._state = "playing";
+
+		try {
+			this.timeline.process(this._position, this.args);
+			this.startRunning();
+		} catch (error) {
+			this.fail(error);
+		}
+
+		return this.playback;
+	}
+
+	/** Pauses the playback at the current position. */
+	pause(): void {
+		if (this._state !== "playing") return;
+		this._state = "paused";
+		this.stopRunning();
+	}
+
+	/** Continues a paused playback. */
+	resume(): void {
+		if (this._state !== "paused") return;
+		this._state = "playing";
+		this.startRunning();
+	}
+
+	/** Stops the playback and rewinds to the beginning. */
+	stop(): void {
+		if (this._state !== "playing" && this._state !== "paused") return;
+
+		this.stopRunning();
+		this.rewind();
+		this._state = "stopped";
+		this.options.onStop?.();
+		this.settle("stopped");
+	}
+
+	/**
+	 * Moves to a tick or marker without executing the events before it. The events at it trigger when playing.
+	 * After the playback ended, the next {@link play} starts from here.
+	 * @throws {TimelineError} When tick is invalid or the marker does not exist
+	 */
+	seek(target: number | string): void {
+		const tick = typeof target === "string" ? this.timeline.getMarker(target) : target;
+		this.timeline.seek(tick);
+		this._position = Math.max(0, Math.min(tick, this.timeline.getDuration()));
+
+		if (this.hasEnded()) {
+			this.direction = 1;
+			this.completedCycles = 0;
+			this._state = "idle";
+		}
+	}
+
+	/**
+	 * Waits until the playback reaches a marker of the timeline.
+	 * @throws {TimelineError} When the marker does not exist
+	 */
+	waitForMarker(name: string): Promise<void> {
+		return this.timeline.waitForMarker(name);
+	}
+
+	/**
+	 * Gets a promise that resolves when the current playback completes, is stopped or fails.
+	 * Resolves right away with the result of the last playback when nothing is playing,
+	 * or with `"idle"` when nothing was played yet or {@link seek} was called since.
+	 */
+	whenFinished(): Promise<TimelineFinishResult> {
+		if (this._state === "playing" || this._state === "paused") return this.playback!;
+		return Promise.resolve(this._state);
+	}
+
+	/**
+	 * Called every tick while playing. Ends the playback when the timeline throws.
+	 */
+	private step(): void {
+		try {
+			this.advance();
+		} catch (error) {
+			this.fail(error);
+		}
+	}
+
+	/**
+	 * Advances the playback by one tick, scaled by {@link speed}.
+	 */
+	private advance(): void {
+		if (this._state !== "playing") return;
+
+		const duration = this.timeline.getDuration();
+		this._position += this._speed * this.direction;
+
+		while (this._state === "playing") {
+			if (this.direction === 1 && this._position >= duration) {
+				this.timeline.process(duration, this.args);
+				const overflow = this._position - duration;
+
+				if (this.loop === "pingPong") {
+					this.direction = -1;
+					this._position = duration - overflow;
+					if (overflow === 0) return;
+				} else if (this.finishCycle()) {
+					this.timeline.reset();
+					this._position = overflow;
+				}
+			} else if (this.direction === -1 && this._position <= 0) {
+				const overflow = Math.abs(this._position);
+
+				if (this.finishCycle()) {
+					this.direction = 1;
+					this.timeline.reset();
+					this._position = overflow;
+				}
+			} else {
+				if (this.direction === 1) {
+					this.timeline.process(this._position, this.args);
+				} else {
+					this.timeline.seek(this._position);
+					this.timeline.applyTracks(this._position, this.args);
+				}
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Ends a cycle, and completes the playback if it was the last one.
+	 * @returns Whether the next cycle should start.
+	 */
+	private finishCycle(): boolean {
+		this.completedCycles++;
+
+		if (this.completedCycles >= this.loopCount) {
+			this._position = this.direction === 1 ? this.timeline.getDuration() : 0;
+			if (this.direction === -1) {
+				this.timeline.seek(0);
+				this.timeline.applyTracks(0, this.args);
+			}
+			this.stopRunning();
+			this._state = "completed";
+			this.options.onComplete?.();
+			this.settle("completed");
+			return false;
+		}
+
+		this.options.onLoop?.(this.completedCycles);
+		return true;
+	}
+
+	/**
+	 * Ends the playback because the timeline threw an error.
+	 */
+	private fail(error: unknown): void {
+		this.stopRunning();
+		this._state = "error";
+
+		try {
+			if (this.options.onError) {
+				this.options.onError(error);
+			} else {
+				console.error(`Timeline playback failed: ${error}`);
+			}
+		} finally {
+			this.settle("error");
+		}
+	}
+
+	private hasEnded(): boolean {
+		return this._state === "completed" || this._state === "stopped" || this._state === "error";
+	}
+
+	private rewind(): void {
+		this._position = 0;
+		this.direction = 1;
+		this.completedCycles = 0;
+		this.timeline.reset();
+	}
+
+	private settle(result: TimelinePlaybackResult): void {
+		this.resolvePlayback?.(result);
+		this.resolvePlayback = undefined;
+	}
+
+	private startRunning(): void {
+		this.runId ??= mc.system.runInterval(() => this.step(), 1);
+	}
+
+	private stopRunning(): void {
+		if (this.runId === undefined) return;
+		mc.system.clearRun(this.runId);
+		this.runId = undefined;
+	}
+}
+
+const validateSpeed = (speed: number): number => {
+	if (!Number.isFinite(speed) || speed < 0) {
+		throw new TimelineError("Playback speed must be a non-negative finite number", { speed });
+	}
+	return speed;
+};
@@ -1,3 +1,7 @@
+import type { RGB, RGBA, Vector3 } from "@minecraft/server";
+import { Easing, type EasingFunction } from "./easing.js";
+import { Vec3 } from "./vec3.js";
+
 /**
  * Custom error class for timeline-related errors
  */
@@ -12,10 +16,242 @@ export class TimelineError extends Error {
 }
 
 /**
- * Record mapping percentages (0-1) to event functions
+ * Record mapping percentages (0-1) to event functions.
+ * With the `keyUnit` option of {@link Timeline}, keys can be absolute ticks or seconds instead.
  */
 export type TimelineRecord<TArgs = any> = Record<number, (args: TArgs) => void>;
 
+/**
+ * Event that lasts from one percentage (0-1) of the timeline to another.
+ * When `process()` jumps over the whole span, all three callbacks are still called in order.
+ *
+ * @example
+ * ```typescript
+ * const timeline = new Timeline<{ player: Player }>(100, {}, {
+ *   spans: [
+ *     {
+ *       start: 0.2,
+ *       end: 0.6,
+ *       onUpdate: (progress, { player }) => spawnChargeParticles(player, progress),
+ *       onExit: ({ player }) => player.stopSound("charge"),
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export interface TimelineSpan<TArgs = any> {
+	/** Percentage (0-1) at which the span starts */
+	start: number;
+	/** Percentage (0-1) at which the span ends. Must not be less than `start` */
+	end: number;
+	/** Called when the timeline reaches `start` */
+	onEnter?: (args: TArgs) => void;
+	/**
+	 * Called on every `process()` call while the span is active, and once with `1` before `onExit`
+	 *
+	 * @param localProgress - Progress within the span (0-1)
+	 */
+	onUpdate?: (localProgress: number, args: TArgs) => void;
+	/** Called when the timeline reaches `end`, or when it is reset while the span is active */
+	onExit?: (args: TArgs) => void;
+}
+
+/**
+ * Keyframe of a {@link TimelineTrack}
+ */
+export interface TimelineKeyframe<TValue> {
+	/** Percentage (0-1) of the timeline */
+	at: number;
+	value: TValue;
+	/** Easing of the segment from this keyframe to the next one. Defaults to {@link Easing.linear} */
+	easing?: EasingFunction;
+}
+
+/**
+ * Keyframed value that is interpolated along a timeline.
+ * Before the first keyframe it holds the first value, and after the last keyframe the last value.
+ *
+ * @template TValue - Type of the value
+ * @template TArgs - Type of arguments passed to the setter
+ *
+ * @example
+ * ```typescript
+ * const cameraTrack = TimelineTrack.vector3<{ player: Player }>(
+ *   [
+ *     { at: 0, value: start, easing: Easing.easeInOutSine },
+ *     { at: 1, value: end },
+ *   ],
+ *   (location, { player }) => player.camera.setCamera("minecraft:free", { location }),
+ * );
+ *
+ * const timeline = new Timeline(60, {}, { tracks: [cameraTrack] });
+ * timeline.getTrackValue(cameraTrack, 30); // Halfway between start and end
+ * ```
+ */
+export class TimelineTrack<TValue, TArgs = any> {
+	private readonly keyframes: readonly TimelineKeyframe<TValue>[];
+
+	/**
+	 * Creates a new track
+	 *
+	 * @param keyframes - Keyframes in any order
+	 * @param interpolate - Interpolates between two values, with `t` already eased
+	 * @param setter - Receives the current value whenever the timeline is processed
+	 * @throws {TimelineError} When validation fails
+	 */
+	constructor(
+		keyframes: readonly TimelineKeyframe<TValue>[],
+		private readonly interpolate: (from: TValue, to: TValue, t: number) => TValue,
+		readonly setter?: (value: TValue, args: TArgs) => void,
+	) {
+		if (!keyframes || keyframes.length === 0) {
+			throw new TimelineError("Track keyframes cannot be empty or null");
+		}
+
+		const seenPercentages = new Set<number>();
+
+		for (const keyframe of keyframes) {
+			if (!Number.isFinite(keyframe.at) || keyframe.at < 0 || keyframe.at > 1) {
+				throw new TimelineError(`Keyframe out of range: ${keyframe.at}. Must be between 0 and 1`, {
+					percentage: keyframe.at,
+					validRange: "0 to 1",
+				});
+			}
+
+			if (seenPercentages.has(keyframe.at)) {
+				throw new TimelineError(
+					`Duplicate keyframe found: ${keyframe.at}. Each keyframe must be unique`,
+					{
+						percentage: keyframe.at,
+					},
+				);
+			}
+			seenPercentages.add(keyframe.at);
+		}
+
+		this.keyframes = [...keyframes].sort((a, b) => a.at - b.at);
+	}
+
+	/**
+	 * Creates a track of numbers
+	 */
+	static number<TArgs = any>(
+		keyframes: readonly TimelineKeyframe<number>[],
+		setter?: (value: number, args: TArgs) => void,
+	): TimelineTrack<number, TArgs> {
+		return new TimelineTrack(keyframes, (from, to, t) => from + (to - from) * t, setter);
+	}
+
+	/**
+	 * Creates a track of vectors
+	 */
+	static vector3<TArgs = any>(
+		keyframes: readonly TimelineKeyframe<Vector3>[],
+		setter?: (value: Vector3, args: TArgs) => void,
+	): TimelineTrack<Vector3, TArgs> {
+		return new TimelineTrack(keyframes, Vec3.lerp, setter);
+	}
+
+	/**
+	 * Creates a track of colors. Alpha is only interpolated when both keyframes of a segment have it
+	 */
+	static color<TArgs = any, TColor extends RGB | RGBA = RGB>(
+		keyframes: readonly TimelineKeyframe<TColor>[],
+		setter?: (value: TColor, args: TArgs) => void,
+	): TimelineTrack<TColor, TArgs> {
+		return new TimelineTrack(
+			keyframes,
+			(from, to, t) => {
+				const color: RGB | RGBA = {
+					red: from.red + (to.red - from.red) * t,
+					green: from.green + (to.green - from.green) * t,
+					blue: from.blue + (to.blue - from.blue) * t,
+				};
+
+				if ("alpha" in from && "alpha" in to) {
+					(color as RGBA).alpha = from.alpha + (to.alpha - from.alpha) * t;
+				}
+
+				return color as TColor;
+			},
+			setter,
+		);
+	}
+
+	/**
+	 * Gets the interpolated value at a percentage (0-1) of the timeline
+	 *
+	 * @param progress - Percentage of the timeline
+	 */
+	getValueAt(progress: number): TValue {
+		const first = this.keyframes[0]!;
+		if (progress <= first.at) return first.value;
+
+		for (let i = 1; i < this.keyframes.length; i++) {
+			const to = this.keyframes[i]!;
+			if (progress > to.at) continue;
+
+			const from = this.keyframes[i - 1]!;
+			const easing = from.easing ?? Easing.linear;
+			return this.interpolate(
+				from.value,
+				to.value,
+				easing((progress - from.at) / (to.at - from.at)),
+			);
+		}
+
+		return this.keyframes[this.keyframes.length - 1]!.value;
+	}
+}
+
+/**
+ * Additional options for {@link Timeline}
+ */
+export interface TimelineOptions<TArgs = any> {
+	/**
+	 * Unit of the record keys and marker positions. Spans and tracks always use percentages.
+	 * - `"percentage"`: 0-1 of the duration, floored into ticks (default)
+	 * - `"ticks"`: Absolute whole ticks from 0 to the duration
+	 * - `"seconds"`: Absolute seconds (20 ticks each) from 0 to the duration, floored into ticks.
+	 *   Two keys in the same tick are duplicates
+	 */
+	keyUnit?: TimelineKeyUnit;
+	/**
+	 * Named points of the timeline, e.g. `{ muzzle_flash: 7 }`.
+	 * They can be queried with `getMarker()`, passed to `seek()` and awaited with `waitForMarker()`
+	 */
+	markers?: Record<string, number>;
+	/** Span events with enter, update and exit callbacks */
+	spans?: readonly TimelineSpan<TArgs>[];
+	/** Value tracks whose setters are called on every `process()` call */
+	tracks?: readonly TimelineTrack<any, TArgs>[];
+}
+
+/**
+ * Common API of {@link Timeline} and composite timelines, e.g. for playing them with `TimelinePlayer`
+ */
+export interface TimelineLike<TArgs = any> {
+	process(tick: number, args: TArgs): void;
+	seek(target: number | string): void;
+	applyTracks(tick: number, args: TArgs): void;
+	reset(): void;
+	getDuration(): number;
+	getCurrentProgress(tick: number): number;
+	isComplete(tick: number): boolean;
+	getAllEvents(): ReadonlyArray<{ percentage: number; tick: number; executed: boolean }>;
+	getMarker(name: string): number;
+	hasMarker(name: string): boolean;
+	getMarkers(): ReadonlyArray<{ name: string; tick: number }>;
+	waitForMarker(name: string): Promise<void>;
+}
+
+/**
+ * Unit of {@link TimelineRecord} keys and markers
+ */
+export type TimelineKeyUnit = "percentage" | "ticks" | "seconds";
+
+const TICKS_PER_SECOND = 20;
+
 interface ProcessedEvent<T = any> {
 	tick: number;
 	func: (args: T) => void;
@@ -23,6 +259,25 @@ interface ProcessedEvent<T = any> {
 	percentage: number; // Store original percentage
 }
 
+interface MarkerWaiter {
+	tick: number;
+	resolve: () => void;
+}
+
+interface ProcessedSpan<T = any> {
+	span: TimelineSpan<T>;
+	startTick: number;
+	endTick: number;
+	state: "pending" | "active" | "done";
+}
+
+// Span callbacks and instant events that are due in a single process() call, run in tick order
+interface ScheduledAction {
+	tick: number;
+	order: number; // 0: span enter, 1: instant event, 2: span exit
+	run: () => void;
+}
+
 /**
  * Manages a timeline of events triggered at specific percentages of completion.
  *
@@ -52,79 +307,98 @@ interface ProcessedEvent<T = any> {
  * timeline.process(20, { player });
  * // Output:
  * // "Complete"
+ *
+ * // Absolute ticks and named markers
+ * const shot = new Timeline<ExampleTimelineArgs>(
+ *   20,
+ *   { 7: (args) => args.player.playSound("pistol.fire") },
+ *   { keyUnit: "ticks", markers: { muzzle_flash: 7 } },
+ * );
+ * shot.seek("muzzle_flash");
+ * shot.process(7, { player }); // Plays "pistol.fire", since seeking does not execute the events at the marker
  * ```
  */
-export class Timeline<TArgs = any> {
+export class Timeline<TArgs = any> implements TimelineLike<TArgs> {
 	private readonly duration: number;
 	private readonly sortedEvents: ProcessedEvent<TArgs>[];
+	private readonly spans: ProcessedSpan<TArgs>[];
+	private readonly tracks: readonly TimelineTrack<any, TArgs>[];
 	private lastProcessedTick: number = -1;
+	private lastArgs?: TArgs;
+	private readonly keyUnit: TimelineKeyUnit;
+	private readonly markers = new Map<string, number>();
+	private markerWaiters: MarkerWaiter[] = [];
 
 	/**
 	 * Creates a new Timeline instance
 	 *
 	 * @param duration - Timeline duration in ticks
-	 * @param timelineRecord - Map of percentages (0-1) to event functions
+	 * @param timelineRecord - Map of percentages (0-1), ticks or seconds to event functions. Can be empty when spans or tracks are given
+	 * @param options - Additional options such as the key unit, markers, span events and value tracks
 	 * @throws {TimelineError} When validation fails
 	 */
-	constructor(duration: number, timelineRecord: TimelineRecord<TArgs>) {
+	constructor(
+		duration: number,
+		timelineRecord: TimelineRecord<TArgs>,
+		options: TimelineOptions<TArgs> = {},
+	) {
 		if (!Number.isFinite(duration) || duration <= 0) {
 			throw new TimelineError("Timeline duration must be a positive finite number", {
 				duration,
 			});
 		}
 
-		if (!timelineRecord || Object.keys(timelineRecord).length === 0) {
+		if (
+			!timelineRecord ||
+			(Object.keys(timelineRecord).length === 0 &&
+				(options.spans?.length ?? 0) === 0 &&
+				(options.tracks?.length ?? 0) === 0)
+		) {
 			throw new TimelineError("Timeline record cannot be empty or null");
 		}
 
 		this.duration = duration;
 
-		// Check for duplicate percentages
-		const seenPercentages = new Set<number>();
+		this.keyUnit = options.keyUnit ?? "percentage";
 
-		// Convert percentages to absolute ticks and sort for efficient processing
-		this.sortedEvents = Object.entries(timelineRecord)
-			.map(([percentageStr, func]) => {
-				const percentage = parseFloat(percentageStr);
+		if (!["percentage", "ticks", "seconds"].includes(this.keyUnit)) {
+			throw new TimelineError(`Invalid key unit: "${this.keyUnit}"`, {
+				keyUnit: this.keyUnit,
+				validUnits: "percentage, ticks, seconds",
+			});
+		}
 
-				if (!Number.isFinite(percentage)) {
-					throw new TimelineError(
-						`Invalid percentage key: "${percentageStr}" is not a valid number`,
-						{
-							invalidKey: percentageStr,
-						},
-					);
-				}
+		const keyLabel = getKeyLabel(this.keyUnit);
 
-				if (percentage < 0 || percentage > 1) {
-					throw new TimelineError(
-						`Percentage out of range: ${percentage}. Must be between 0 and 1`,
-						{
-							percentage,
-							validRange: "0 to 1",
-						},
-					);
-				}
+		// Check for duplicate keys. Seconds are compared by tick, since several seconds can floor into the same tick
+		const seenKeys = new Set<number>();
 
-				if (seenPercentages.has(percentage)) {
+		// Convert keys to absolute ticks and sort for efficient processing
+		this.sortedEvents = Object.entries(timelineRecord)
+			.map(([keyStr, func]) => {
+				const { key, tick, percentage } = this.resolveKey(keyStr);
+				const uniqueKey = this.keyUnit === "seconds" ? tick : key;
+
+				if (seenKeys.has(uniqueKey)) {
 					throw new TimelineError(
-						`Duplicate percentage found: ${percentage}. Each percentage must be unique`,
+						`Duplicate ${keyLabel} found: ${key}${this.keyUnit === "seconds" ? ` (tick ${tick})` : ""}. Each ${keyLabel} must be unique`,
 						{
-							percentage,
+							[keyLabel]: key,
+							tick,
 						},
 					);
 				}
-				seenPercentages.add(percentage);
+				seenKeys.add(uniqueKey);
 
 				if (typeof func !== "function") {
-					throw new TimelineError(`Event handler must be a function for percentage ${percentage}`, {
-						percentage,
+					throw new TimelineError(`Event handler must be a function for ${keyLabel} ${key}`, {
+						[keyLabel]: key,
 						receivedType: typeof func,
 					});
 				}
 
 				return {
-					tick: Math.floor(percentage * this.duration),
+					tick,
 					func,
 					executed: false,
 					percentage,
@@ -135,6 +409,135 @@ export class Timeline<TArgs = any> {
 				const tickDiff = a.tick - b.tick;
 				return tickDiff !== 0 ? tickDiff : a.percentage - b.percentage;
 			});
+
+		for (const [name, position] of Object.entries(options.markers ?? {})) {
+			if (name.length === 0) {
+				throw new TimelineError("Marker name cannot be empty", { position });
+			}
+
+			this.markers.set(name, this.resolveKey(String(position), name).tick);
+		}
+
+		this.spans = (options.spans ?? []).map((span, index) => this.processSpan(span, index));
+		this.tracks = options.tracks ?? [];
+	}
+
+	/**
+	 * Converts a record key or marker position in the key unit to an absolute tick
+	 *
+	 * @throws {TimelineError} When the key is invalid or out of range
+	 */
+	private resolveKey(
+		keyStr: string,
+		marker?: string,
+	): { key: number; tick: number; percentage: number } {
+		const key = parseFloat(keyStr);
+		const markerContext = marker !== undefined ? { marker } : {};
+
+		if (!Number.isFinite(key)) {
+			throw new TimelineError(
+				`Invalid ${getKeyLabel(this.keyUnit)} key: "${keyStr}" is not a valid number`,
+				{
+					invalidKey: keyStr,
+					...markerContext,
+				},
+			);
+		}
+
+		switch (this.keyUnit) {
+			case "percentage":
+				if (key < 0 || key > 1) {
+					throw new TimelineError(`Percentage out of range: ${key}. Must be between 0 and 1`, {
+						percentage: key,
+						validRange: "0 to 1",
+						...markerContext,
+					});
+				}
+				return { key, tick: Math.floor(key * this.duration), percentage: key };
+
+			case "ticks":
+				if (!Number.isInteger(key)) {
+					throw new TimelineError(`Tick must be a whole number: ${key}`, {
+						tick: key,
+						...markerContext,
+					});
+				}
+				if (key < 0 || key > this.duration) {
+					throw new TimelineError(
+						`Tick out of range: ${key}. Must be between 0 and ${this.duration}`,
+						{
+							tick: key,
+							validRange: `0 to ${this.duration}`,
+							...markerContext,
+						},
+					);
+				}
+				return { key, tick: key, percentage: key / this.duration };
+
+			case "seconds": {
+				const maxSeconds = this.duration / TICKS_PER_SECOND;
+				if (key < 0 || key > maxSeconds) {
+					throw new TimelineError(
+						`Time out of range: ${key}s. Must be between 0 and ${maxSeconds}s`,
+						{
+							time: key,
+							validRange: `0 to ${maxSeconds}`,
+							...markerContext,
+						},
+					);
+				}
+				// Floored like percentages. The epsilon keeps e.g. 1.15s (22.999999999999996) at tick 23
+				const tick = Math.floor(key * TICKS_PER_SECOND + 1e-9);
+				return { key, tick, percentage: tick / this.duration };
+			}
+		}
+	}
+
+	private processSpan(span: TimelineSpan<TArgs>, index: number): ProcessedSpan<TArgs> {
+		const { start, end } = span;
+
+		if (!Number.isFinite(start) || !Number.isFinite(end)) {
+			throw new TimelineError(
+				`Invalid span at index ${index}: start and end must be valid numbers`,
+				{
+					index,
+					start,
+					end,
+				},
+			);
+		}
+
+		if (start < 0 || end > 1 || start > end) {
+			throw new TimelineError(
+				`Span out of range: ${start} to ${end}. Must be between 0 and 1, with start not after end`,
+				{
+					index,
+					start,
+					end,
+					validRange: "0 to 1",
+				},
+			);
+		}
+
+		for (const callbackName of ["onEnter", "onUpdate", "onExit"] as const) {
+			const callback = span[callbackName];
+			if (callback !== undefined && typeof callback !== "function") {
+				throw new TimelineError(
+					`Span ${callbackName} must be a function for span at index ${index}`,
+					{
+						index,
+						receivedType: typeof callback,
+					},
+				);
+			}
+		}
+
+		return {
+			span,
+			startTick: Math.floor(start * this.duration),
+			endTick: Math.floor(end * this.duration),
+			state: "pending",
+		};
 	}
 
 	/**
@@ -160,7 +563,12 @@ export class Timeline<TArgs = any> {
 			this.reset();
 		}
 
-		// Process events sequentially
+		const previousTick = this.lastProcessedTick;
+		this.lastArgs = args;
+
+		const actions: ScheduledAction[] = [];
+
+		// Collect events sequentially
 		for (const event of this.sortedEvents) {
 			// Skip events that haven't reached their time yet
 			if (event.tick > currentTick) {
@@ -169,31 +577,207 @@ export class Timeline<TArgs = any> {
 
 			// Execute unexecuted events that are past the last processed tick
 			if (!event.executed && event.tick > this.lastProcessedTick) {
-				try {
-					event.func(args);
-					event.executed = true;
-				} catch (error) {
-					throw new TimelineError(
-						`Timeline event failed at ${(event.percentage * 100).toFixed(2)}% (tick ${event.tick})`,
-						{
-							percentage: event.percentage,
-							tick: event.tick,
-							currentTick,
-							originalError: error instanceof Error ? error.message : String(error),
-						},
-					);
-				}
+				actions.push({
+					tick: event.tick,
+					order: 1,
+					run: () => {
+						try {
+							event.func(args);
+							event.executed = true;
+						} catch (error) {
+							throw new TimelineError(
+								`Timeline event failed at ${(event.percentage * 100).toFixed(2)}% (tick ${event.tick})`,
+								{
+									percentage: event.percentage,
+									tick: event.tick,
+									currentTick,
+									originalError: error instanceof Error ? error.message : String(error),
+								},
+							);
+						}
+					},
+				});
+			}
+		}
+
+		// Collect span boundaries, including spans that are jumped over entirely
+		for (const span of this.spans) {
+			if (span.state === "pending" && span.startTick <= currentTick) {
+				actions.push({
+					tick: span.startTick,
+					order: 0,
+					run: () => {
+						span.state = "active";
+						this.runSpanCallback(span, "onEnter", currentTick, () => span.span.onEnter?.(args));
+					},
+				});
+			}
+
+			if (span.state !== "done" && span.endTick <= currentTick) {
+				actions.push({
+					tick: span.endTick,
+					order: 2,
+					run: () => this.exitSpan(span, args, currentTick),
+				});
 			}
 		}
 
+		actions.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+		for (const action of actions) {
+			action.run();
+		}
+
+		for (const span of this.spans) {
+			if (span.state !== "active") continue;
+
+			const localProgress = (currentTick - span.startTick) / (span.endTick - span.startTick);
+			this.runSpanCallback(span, "onUpdate", currentTick, () =>
+				span.span.onUpdate?.(localProgress, args),
+			);
+		}
+
+		this.applyTracks(currentTick, args);
 		this.lastProcessedTick = currentTick;
+
+		if (this.markerWaiters.length > 0) {
+			// Markers that were already passed before this call are left for the next pass
+			const isReached = (waiter: MarkerWaiter) =>
+				previousTick < waiter.tick && waiter.tick <= currentTick;
+			const reached = this.markerWaiters.filter(isReached);
+			this.markerWaiters = this.markerWaiters.filter((waiter) => !isReached(waiter));
+			for (const waiter of reached) {
+				waiter.resolve();
+			}
+		}
+	}
+
+	/**
+	 * Calls the setters of all tracks with their values at a tick, without executing any events.
+	 * `process()` already does this, so it is only needed after seeking, e.g. when playing backwards.
+	 *
+	 * @param tick - Tick position
+	 * @param args - Arguments to pass to the setters
+	 * @throws {TimelineError} When a setter fails
+	 */
+	applyTracks(tick: number, args: TArgs): void {
+		const progress = this.getCurrentProgress(tick);
+
+		for (const track of this.tracks) {
+			if (!track.setter) continue;
+
+			try {
+				track.setter(track.getValueAt(progress), args);
+			} catch (error) {
+				throw new TimelineError(`Timeline track setter failed at tick ${tick}`, {
+					tick,
+					progress,
+					originalError: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+	}
+
+	/**
+	 * Gets the interpolated value of a track at a tick
+	 *
+	 * @param track - Track to query. Does not need to be added to this timeline
+	 * @param tick - Tick position
+	 * @returns Value of the track at the tick
+	 */
+	getTrackValue<TValue>(track: TimelineTrack<TValue, any>, tick: number): TValue {
+		return track.getValueAt(this.getCurrentProgress(tick));
+	}
+
+	private exitSpan(span: ProcessedSpan<TArgs>, args: TArgs, currentTick: number): void {
+		span.state = "done";
+		this.runSpanCallback(span, "onUpdate", currentTick, () => span.span.onUpdate?.(1, args));
+		this.runSpanCallback(span, "onExit", currentTick, () => span.span.onExit?.(args));
+	}
+
+	private runSpanCallback(
+		span: ProcessedSpan<TArgs>,
+		callbackName: "onEnter" | "onUpdate" | "onExit",
+		currentTick: number,
+		callback: () => void,
+	): void {
+		try {
+			callback();
+		} catch (error) {
+			throw new TimelineError(
+				`Timeline span ${callbackName} failed for span from ${(span.span.start * 100).toFixed(2)}% to ${(span.span.end * 100).toFixed(2)}%`,
+				{
+					start: span.span.start,
+					end: span.span.end,
+					startTick: span.startTick,
+					endTick: span.endTick,
+					currentTick,
+					originalError: error instanceof Error ? error.message : String(error),
+				},
+			);
+		}
+	}
+
+	/**
+	 * Moves the timeline to a tick or marker without executing any events.
+	 * Events before the tick are marked as executed, and the events at the tick and later are ready to trigger,
+	 * so `process()` at a seeked marker triggers the events at the marker
+	 *
+	 * @param target - Tick position or marker name to move to
+	 * @throws {TimelineError} When tick is invalid or the marker does not exist
+	 */
+	seek(target: number | string): void {
+		const tick = typeof target === "string" ? this.getMarker(target) : target;
+
+		if (!Number.isFinite(tick)) {
+			throw new TimelineError("Tick must be a finite number", {
+				tick,
+				tickType: typeof tick,
+			});
+		}
+
+		// Not clamped to the duration, so that seeking past the end also skips the events at the end
+		const targetTick = Math.max(0, tick);
+		const currentTick = Math.min(targetTick, this.duration);
+
+		for (const event of this.sortedEvents) {
+			event.executed = event.tick < targetTick;
+		}
+
+		// Active spans that no longer contain the tick are exited without a final update
+		for (const span of this.spans) {
+			const containsTick = span.startTick <= currentTick && currentTick < span.endTick;
+
+			if (span.state === "active" && !containsTick) {
+				span.state = "pending";
+				this.runSpanCallback(span, "onExit", currentTick, () => span.span.onExit?.(this.lastArgs!));
+			}
+
+			if (span.state !== "active") {
+				span.state = span.endTick <= currentTick ? "done" : "pending";
+			}
+		}
+
+		// The ticks before the target count as processed, so the next process() includes the target tick
+		this.lastProcessedTick = Math.min(Math.ceil(targetTick) - 1, this.duration);
 	}
 
 	/**
 	 * Resets the timeline to its initial state.
 	 * All events will be marked as unexecuted and ready to trigger again.
+	 * Active spans are exited first, so that they can clean up.
 	 */
 	reset(): void {
+		for (const span of this.spans) {
+			if (span.state === "active") {
+				span.state = "pending";
+				this.runSpanCallback(span, "onExit", this.lastProcessedTick, () =>
+					span.span.onExit?.(this.lastArgs!),
+				);
+			}
+			span.state = "pending";
+		}
+
 		this.lastProcessedTick = -1;
 		for (const event of this.sortedEvents) {
 			event.executed = false;
@@ -224,6 +808,58 @@ export class Timeline<TArgs = any> {
 		return Number.isFinite(tick) && tick >= this.duration;
 	}
 
+	/**
+	 * Gets the tick of a marker
+	 *
+	 * @param name - Marker name
+	 * @returns Tick of the marker
+	 * @throws {TimelineError} When the marker does not exist
+	 */
+	getMarker(name: string): number {
+		const tick = this.markers.get(name);
+		if (tick === undefined) {
+			throw new TimelineError(`Unknown marker: "${name}"`, {
+				marker: name,
+				availableMarkers: [...this.markers.keys()],
+			});
+		}
+		return tick;
+	}
+
+	/**
+	 * Checks if a marker exists
+	 *
+	 * @param name - Marker name
+	 * @returns True if the marker exists
+	 */
+	hasMarker(name: string): boolean {
+		return this.markers.has(name);
+	}
+
+	/**
+	 * Gets all markers, sorted by tick
+	 *
+	 * @returns Array of marker names and ticks
+	 */
+	getMarkers(): ReadonlyArray<{ name: string; tick: number }> {
+		return [...this.markers]
+			.map(([name, tick]) => ({ name, tick }))
+			.sort((a, b) => a.tick - b.tick);
+	}
+
+	/**
+	 * Waits until `process()` reaches a marker. A marker that was already passed is waited for
+	 * on the next pass, e.g. after the timeline is reset.
+	 *
+	 * @param name - Marker name
+	 * @returns Promise that resolves when the marker is reached
+	 * @throws {TimelineError} When the marker does not exist
+	 */
+	waitForMarker(name: string): Promise<void> {
+		const tick = this.getMarker(name);
+		return new Promise((resolve) => this.markerWaiters.push({ tick, resolve }));
+	}
+
 	/**
 	 * Gets the timeline duration
 	 *
@@ -257,4 +893,36 @@ export class Timeline<TArgs = any> {
 			executed: event.executed,
 		}));
 	}
+
+	/**
+	 * Gets information about all spans (for debugging)
+	 *
+	 * @returns Array of all spans with their status
+	 */
+	getAllSpans(): ReadonlyArray<{
+		start: number;
+		end: number;
+		startTick: number;
+		endTick: number;
+		state: "pending" | "active" | "done";
+	}> {
+		return this.spans.map((span) => ({
+			start: span.span.start,
+			end: span.span.end,
+			startTick: span.startTick,
+			endTick: span.endTick,
+			state: span.state,
+		}));
+	}
 }
+
+const getKeyLabel = (unit: TimelineKeyUnit): string => {
+	switch (unit) {
+		case "percentage":
+			return "percentage";
+		case "ticks":
+			return "tick";
+		case "seconds":
+			return "time";
+	}
+};
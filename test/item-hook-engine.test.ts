@@ -0,0 +1,626 @@
+import type * as mc from "@minecraft/server";
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import {
+	FakeItemHookDriver,
+	FakeItemStack,
+	HookedItem,
+	ItemHookEngine,
+	type ItemHookDeleteReason,
+	type ItemHookRegisterOptions,
+	type PlayerInput,
+} from "@lc-studios-mc/scripting-utils/testing";
+
+const WAND = "test:wand";
+
+class ProbeItem extends HookedItem {
+	ticks = 0;
+	deleted = false;
+	readonly slotChanges: [number, number][] = [];
+
+	override onTick(): void {
+		this.ticks++;
+	}
+
+	override onDelete(): void {
+		this.deleted = true;
+	}
+
+	override onSlotChanged(oldIndex: number, newIndex: number): void {
+		this.slotChanges.push([oldIndex, newIndex]);
+	}
+}
+
+const setup = (options?: ItemHookRegisterOptions) => {
+	const driver = new FakeItemHookDriver();
+	const engine = new ItemHookEngine(driver);
+	engine.registry.register(WAND, (ctx) => new ProbeItem(ctx), options);
+
+	const deletions: ItemHookDeleteReason[] = [];
+	engine.registry.events.on("deleted", ({ reason }) => {
+		deletions.push(reason);
+	});
+
+	const player = driver.addPlayer();
+	const getHook = () => engine.getActiveHookOf(player.asPlayer(), ProbeItem);
+
+	return { driver, engine, player, deletions, getHook };
+};
+
+describe("ItemHookEngine", () => {
+	it("creates a hook for a held item and ticks it from the first tick", () => {
+		const { driver, player, getHook } = setup();
+		player.container.setItem(0, new FakeItemStack(WAND));
+
+		driver.tick(3);
+
+		assert.equal(getHook()?.ticks, 3);
+		assert.equal(getHook()?.currentTick, 3);
+	});
+
+	it("ignores items that are not registered", () => {
+		const { driver, engine, player } = setup();
+		player.container.setItem(0, new FakeItemStack("test:stick"));
+
+		driver.tick();
+
+		assert.deepEqual(engine.getActiveHooks(), []);
+	});
+
+	describe("slot switching", () => {
+		it("deletes the hook when another hotbar slot is selected", () => {
+			const { driver, player, deletions, getHook } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			player.container.setItem(1, new FakeItemStack(WAND));
+			driver.tick();
+			const first = getHook()!;
+
+			player.selectedSlotIndex = 1;
+			driver.tick();
+
+			assert.deepEqual(deletions, ["slotChange"]);
+			assert.equal(first.deleted, true);
+			assert.notEqual(getHook(), first);
+			assert.equal(getHook()?.initialSlotIndex, 1);
+		});
+
+		it("keeps the hook when the item is replaced by one of the same type in identity mode type", () => {
+			const { driver, player, deletions, getHook } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+			const first = getHook();
+
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			assert.deepEqual(deletions, []);
+			assert.equal(getHook(), first);
+		});
+
+		it("creates a new hook when another item instance is held in identity mode instance", () => {
+			const { driver, player, deletions, getHook } = setup({ identity: "instance" });
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+			const first = getHook();
+
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			assert.deepEqual(deletions, ["slotChange"]);
+			assert.notEqual(getHook(), first);
+		});
+
+		it("follows the item to the newly selected slot with followItem", () => {
+			const { driver, player, deletions, getHook } = setup({
+				identity: "instance",
+				followItem: true,
+			});
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+			const first = getHook()!;
+
+			player.container.setItem(3, player.container.peekItem(0));
+			player.container.setItem(0, undefined);
+			player.selectedSlotIndex = 3;
+			driver.tick();
+
+			assert.deepEqual(deletions, []);
+			assert.equal(getHook(), first);
+			assert.equal(first.slotIndex, 3);
+			assert.deepEqual(first.slotChanges, [[0, 3]]);
+		});
+
+		it("does not follow another item of the same type with followItem", () => {
+			const { driver, player, deletions, getHook } = setup({ followItem: true });
+			player.container.setItem(0, new FakeItemStack(WAND));
+			player.container.setItem(1, new FakeItemStack(WAND));
+			driver.tick();
+			const first = getHook()!;
+
+			player.selectedSlotIndex = 1;
+			driver.tick();
+
+			assert.deepEqual(deletions, ["slotChange"]);
+			assert.deepEqual(first.slotChanges, []);
+			assert.notEqual(getHook(), first);
+		});
+
+		it("rejects followItem with identity type", () => {
+			assert.throws(() => setup({ identity: "type", followItem: true }), /identity "instance"/);
+		});
+	});
+
+	describe("death", () => {
+		it("deletes hooks when the player dies, and creates them again after respawning", () => {
+			const { driver, player, deletions, getHook } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+			const first = getHook()!;
+
+			player.kill();
+			driver.tick(5);
+
+			assert.deepEqual(deletions, ["death"]);
+			assert.equal(first.deleted, true);
+			assert.equal(getHook(), undefined);
+
+			player.health.currentValue = player.health.effectiveMax;
+			driver.tick();
+
+			assert.notEqual(getHook(), undefined);
+			assert.notEqual(getHook(), first);
+		});
+	});
+
+	describe("deletion rules", () => {
+		it("deletes the hook when the item leaves the slot", () => {
+			const { driver, player, deletions, getHook } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			player.container.setItem(0, undefined);
+			driver.tick();
+
+			assert.deepEqual(deletions, ["slotChange"]);
+			assert.equal(getHook(), undefined);
+		});
+
+		it("deletes the hook on the next tick after deleteOnNextTick, then creates it again", () => {
+			const { driver, player, deletions, getHook } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+			const first = getHook()!;
+
+			first.deleteOnNextTick = true;
+			driver.tick();
+
+			assert.deepEqual(deletions, ["deleteOnNextTick"]);
+			assert.equal(getHook(), undefined);
+
+			driver.tick();
+
+			assert.notEqual(getHook(), undefined);
+			assert.notEqual(getHook(), first);
+		});
+
+		it("deletes the hooks of a leaving player", () => {
+			const { driver, engine, player, deletions } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			driver.remove(player);
+
+			assert.deepEqual(deletions, ["leave"]);
+			assert.deepEqual(engine.getActiveHooks(), []);
+		});
+
+		it("deletes hooks in slots that no registration uses anymore", () => {
+			const { driver, engine, player, deletions, getHook } = setup();
+			engine.registry.register("test:shield", (ctx) => new ProbeItem(ctx), {
+				slots: ["Offhand" as mc.EquipmentSlot],
+			});
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			engine.registry.unregister(WAND);
+			driver.tick();
+
+			assert.deepEqual(deletions, ["unregistered"]);
+			assert.equal(getHook(), undefined);
+		});
+
+		it("deletes hooks with forceDelete, and creates them again on the next tick", () => {
+			const { driver, engine, player, deletions, getHook } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			assert.equal(engine.forceDelete(player.asPlayer()), true);
+			assert.deepEqual(deletions, ["forced"]);
+			assert.equal(getHook(), undefined);
+
+			driver.tick();
+
+			assert.notEqual(getHook(), undefined);
+		});
+	});
+
+	describe("sleeping", () => {
+		it("is only woken up by use, hit and hurt events", () => {
+			const { driver, engine, player, getHook } = setup({ identity: "instance", followItem: true });
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+			const hook = getHook()!;
+			hook.sleep();
+
+			player.container.setItem(1, player.container.peekItem(0));
+			player.container.setItem(0, undefined);
+			player.selectedSlotIndex = 1;
+			engine.handlePlayerInteractWithBlock({
+				player: player.asPlayer(),
+			} as mc.PlayerInteractWithBlockAfterEvent);
+			driver.tick(3);
+
+			assert.deepEqual(hook.slotChanges, [[0, 1]]);
+			assert.equal(hook.isSleeping, true);
+			assert.equal(hook.ticks, 1);
+
+			engine.handleEntityHurt({ hurtEntity: player.asEntity() } as mc.EntityHurtAfterEvent);
+			driver.tick();
+
+			assert.equal(hook.isSleeping, false);
+			assert.equal(hook.ticks, 2);
+		});
+	});
+
+	describe("use", () => {
+		class BowItem extends ProbeItem {
+			allowUse = true;
+			readonly useTicksSeen: number[] = [];
+			readonly stopCharges: number[] = [];
+
+			override canUse(): boolean {
+				return this.allowUse;
+			}
+
+			override onUseTick(useTicks: number): void {
+				this.useTicksSeen.push(useTicks);
+			}
+
+			override onStopUse(_e: mc.ItemStopUseAfterEvent, charge: number): void {
+				this.stopCharges.push(charge);
+			}
+		}
+
+		const setupBow = () => {
+			const driver = new FakeItemHookDriver();
+			const engine = new ItemHookEngine(driver);
+			engine.registry.register(WAND, (ctx) => new BowItem(ctx), { maxChargeTicks: 10 });
+
+			const player = driver.addPlayer();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			const event = {
+				source: player.asPlayer(),
+				itemStack: new FakeItemStack(WAND).asItemStack(),
+			} as mc.ItemStartUseAfterEvent & mc.ItemStopUseAfterEvent;
+
+			const hook = engine.getActiveHookOf(player.asPlayer(), BowItem)!;
+			return { driver, engine, event, hook };
+		};
+
+		it("counts use ticks and reports the charge when the use stops", () => {
+			const { driver, engine, event, hook } = setupBow();
+
+			engine.handleItemStartUse(event);
+			driver.tick(4);
+
+			assert.equal(hook.isUsing, true);
+			assert.deepEqual(hook.useTicksSeen, [1, 2, 3, 4]);
+			assert.equal(hook.charge, 0.4);
+
+			engine.handleItemStopUse(event);
+			driver.tick(2);
+
+			assert.equal(hook.isUsing, false);
+			assert.deepEqual(hook.stopCharges, [0.4]);
+			assert.deepEqual(hook.useTicksSeen, [1, 2, 3, 4]);
+		});
+
+		it("caps the charge at 1 and starts over on the next use", () => {
+			const { driver, engine, event, hook } = setupBow();
+
+			engine.handleItemStartUse(event);
+			driver.tick(15);
+			assert.equal(hook.useTicks, 15);
+			assert.equal(hook.charge, 1);
+			engine.handleItemStopUse(event);
+
+			engine.handleItemStartUse(event);
+			assert.equal(hook.useTicks, 0);
+			driver.tick(5);
+			engine.handleItemStopUse(event);
+
+			assert.deepEqual(hook.stopCharges, [1, 0.5]);
+		});
+
+		it("does not start using when canUse returns false", () => {
+			const { driver, engine, event, hook } = setupBow();
+			hook.allowUse = false;
+
+			engine.handleItemStartUse(event);
+			driver.tick(3);
+			engine.handleItemStopUse(event);
+
+			assert.equal(hook.isUsing, false);
+			assert.deepEqual(hook.useTicksSeen, []);
+			assert.deepEqual(hook.stopCharges, []);
+		});
+	});
+
+	describe("input", () => {
+		class InputItem extends ProbeItem {
+			readonly changes: string[] = [];
+
+			override onInputPressed(input: PlayerInput): void {
+				this.changes.push(`pressed ${input}`);
+			}
+
+			override onInputReleased(input: PlayerInput, heldTicks: number): void {
+				this.changes.push(`released ${input} ${heldTicks}`);
+			}
+
+			override onMultiTap(input: PlayerInput, tapCount: number): void {
+				this.changes.push(`multiTap ${input} ${tapCount}`);
+			}
+		}
+
+		const setupInput = () => {
+			const driver = new FakeItemHookDriver();
+			const engine = new ItemHookEngine(driver);
+			engine.registry.register(WAND, (ctx) => new InputItem(ctx), {
+				input: { multiTapInterval: 3 },
+			});
+
+			const player = driver.addPlayer();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			const getHook = () => engine.getActiveHookOf(player.asPlayer(), InputItem)!;
+
+			return { driver, player, getHook };
+		};
+
+		it("reports presses and releases with the number of held ticks", () => {
+			const { driver, player, getHook } = setupInput();
+			driver.tick();
+
+			player.isSneaking = true;
+			driver.tick(3);
+			player.isSneaking = false;
+			driver.tick();
+
+			assert.deepEqual(getHook().changes, ["pressed sneak", "released sneak 3"]);
+		});
+
+		it("does not report inputs that are already down when the hook is created as pressed", () => {
+			const { driver, player, getHook } = setupInput();
+			player.isJumping = true;
+			driver.tick(2);
+
+			assert.deepEqual(getHook().changes, []);
+			assert.equal(getHook().input.getHeldTicks("jump"), 2);
+
+			player.isJumping = false;
+			driver.tick();
+
+			assert.deepEqual(getHook().changes, ["released jump 2"]);
+		});
+
+		it("reports multi-taps within the interval only", () => {
+			const { driver, player, getHook } = setupInput();
+			driver.tick();
+
+			for (const isSprinting of [true, false, true, false, true, false]) {
+				player.isSprinting = isSprinting;
+				driver.tick();
+			}
+			driver.tick(5);
+			player.isSprinting = true;
+			driver.tick();
+
+			assert.deepEqual(
+				getHook().changes.filter((change) => !change.startsWith("released")),
+				[
+					"pressed sprint",
+					"pressed sprint",
+					"multiTap sprint 2",
+					"pressed sprint",
+					"multiTap sprint 3",
+					"pressed sprint",
+				],
+			);
+		});
+	});
+
+	describe("resources", () => {
+		const ARROW = "test:arrow";
+		const FIRE_ARROW = "test:fire_arrow";
+
+		const setupQuiver = () => {
+			const { driver, player, getHook } = setup();
+			player.container.setItem(0, new FakeItemStack(WAND));
+			player.container.setItem(1, new FakeItemStack(ARROW, { amount: 3, maxAmount: 64 }));
+			player.container.setItem(2, new FakeItemStack(FIRE_ARROW, { amount: 2, maxAmount: 64 }));
+			driver.tick();
+
+			return { player, hook: getHook()! };
+		};
+
+		it("counts matching items across slots", () => {
+			const { player, hook } = setupQuiver();
+			player.container.setItem(5, new FakeItemStack(ARROW, { amount: 4, maxAmount: 64 }));
+
+			assert.equal(
+				hook.countItems((itemStack) => itemStack.typeId === ARROW),
+				7,
+			);
+		});
+
+		it("counts reservations against other predicates that match the reserved items", () => {
+			const { hook } = setupQuiver();
+			const anyArrow = (itemStack: mc.ItemStack) => itemStack.typeId.endsWith("arrow");
+
+			const reservation = hook.reserveItems((itemStack) => itemStack.typeId === ARROW, 2);
+			assert.notEqual(reservation, undefined);
+
+			assert.equal(
+				hook.countAvailableItems((itemStack) => itemStack.typeId === ARROW),
+				1,
+			);
+			assert.equal(hook.countAvailableItems(anyArrow), 3);
+			assert.equal(
+				hook.reserveItems((itemStack) => itemStack.typeId === ARROW, 2),
+				undefined,
+			);
+
+			reservation!.release();
+			assert.equal(hook.countAvailableItems(anyArrow), 5);
+		});
+
+		it("consumes the reserved items on commit", () => {
+			const { player, hook } = setupQuiver();
+
+			const reservation = hook.reserveItems((itemStack) => itemStack.typeId === FIRE_ARROW, 2);
+
+			assert.equal(reservation?.commit(), true);
+			assert.equal(reservation?.isActive, false);
+			assert.equal(player.container.peekItem(2), undefined);
+			assert.equal(player.container.peekItem(1)?.amount, 3);
+		});
+	});
+
+	describe("persistence", () => {
+		class CounterItem extends ProbeItem {
+			count = (this.restoredState as { count?: number } | undefined)?.count ?? 0;
+
+			override onTick(): void {
+				super.onTick();
+				this.count++;
+			}
+
+			override serializeState(): unknown {
+				return { count: this.count };
+			}
+		}
+
+		const setupCounter = (options: ItemHookRegisterOptions) => {
+			const driver = new FakeItemHookDriver();
+			const engine = new ItemHookEngine(driver);
+			engine.registry.register(WAND, (ctx) => new CounterItem(ctx), options);
+
+			const player = driver.addPlayer();
+			const getHook = () => engine.getActiveHookOf(player.asPlayer(), CounterItem);
+
+			return { driver, player, getHook };
+		};
+
+		it("saves the state when the hook is deleted and restores it for the same item", () => {
+			const { driver, player, getHook } = setupCounter({
+				identity: "instance",
+				persistInterval: 0,
+			});
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick(3);
+
+			player.selectedSlotIndex = 1;
+			driver.tick();
+			assert.equal(getHook(), undefined);
+
+			player.selectedSlotIndex = 0;
+			driver.tick();
+
+			assert.deepEqual(getHook()?.restoredState, { count: 3 });
+			assert.equal(getHook()?.count, 4);
+		});
+
+		it("saves the state periodically", () => {
+			const { driver, player } = setupCounter({ persistInterval: 2 });
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick(3);
+
+			assert.equal(
+				player.container.peekItem(0)?.getDynamicProperty("lc:hooked_item_state"),
+				'{"count":2}',
+			);
+		});
+
+		it("does not save the state on deletion in identity mode type", () => {
+			const { driver, player } = setupCounter({ persistInterval: 0 });
+			player.container.setItem(0, new FakeItemStack(WAND));
+			driver.tick();
+
+			// Another wand takes the place of the first one as the selection changes
+			player.container.setItem(2, player.container.peekItem(0));
+			player.container.setItem(0, new FakeItemStack(WAND));
+			player.selectedSlotIndex = 1;
+			driver.tick();
+
+			assert.equal(
+				player.container.peekItem(0)?.getDynamicProperty("lc:hooked_item_state"),
+				undefined,
+			);
+			assert.equal(
+				player.container.peekItem(2)?.getDynamicProperty("lc:hooked_item_state"),
+				undefined,
+			);
+		});
+	});
+
+	describe("error policies", () => {
+		class FailingItem extends ProbeItem {
+			override onTick(): void {
+				throw new Error(`${this.player.name} failed`);
+			}
+		}
+
+		const setupFailing = (options: ItemHookRegisterOptions) => {
+			const driver = new FakeItemHookDriver();
+			const engine = new ItemHookEngine(driver);
+			engine.registry.register(WAND, (ctx) => new FailingItem(ctx), options);
+
+			const deletions: ItemHookDeleteReason[] = [];
+			engine.registry.events.on("deleted", ({ reason }) => {
+				deletions.push(reason);
+			});
+
+			return { driver, engine, deletions };
+		};
+
+		it("deletes a failing hook on the next tick with the default policy", () => {
+			const { driver, engine, deletions } = setupFailing({});
+			driver.addPlayer().container.setItem(0, new FakeItemStack(WAND));
+
+			driver.tick();
+			assert.equal(engine.getActiveHooks().length, 1);
+
+			driver.tick();
+			assert.deepEqual(deletions, ["error"]);
+		});
+
+		it("keeps other hooks running and rethrows all errors together on the next tick", () => {
+			const { driver, engine, deletions } = setupFailing({ errorPolicy: "rethrow" });
+			driver.addPlayer("A").container.setItem(0, new FakeItemStack(WAND));
+			driver.addPlayer("B").container.setItem(0, new FakeItemStack(WAND));
+
+			driver.tick();
+			assert.equal(engine.getActiveHooks().length, 2);
+
+			assert.throws(
+				() => driver.tick(),
+				(error: unknown) =>
+					error instanceof AggregateError &&
+					error.errors.map(String).join() === "Error: A failed,Error: B failed",
+			);
+			assert.deepEqual(deletions, ["error", "error"]);
+		});
+	});
+});
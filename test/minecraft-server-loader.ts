@@ -0,0 +1,10 @@
+// Module resolution hook registered by `setup.ts`.
+import type { ResolveHook } from "node:module";
+
+export const resolve: ResolveHook = (specifier, context, nextResolve) => {
+	if (specifier === "@minecraft/server") {
+		return { url: new URL("./minecraft-server.js", import.meta.url).href, shortCircuit: true };
+	}
+
+	return nextResolve(specifier, context);
+};
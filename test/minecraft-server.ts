@@ -0,0 +1,72 @@
+// Stand-in for `@minecraft/server`, which only exists inside the game.
+// `setup.ts` resolves the package to this module, so that the main entry point can be loaded in Node tests.
+// Only `system` runs anything: intervals advance when `tickSystem` is called. World events never fire.
+
+const createEvents = () =>
+	new Proxy(
+		{},
+		{
+			get: () => ({
+				subscribe: <T>(callback: T) => callback,
+				unsubscribe: () => {},
+			}),
+		},
+	);
+
+interface Run {
+	callback: () => void;
+	interval: number;
+	nextTick: number;
+	repeat: boolean;
+}
+
+const runs = new Map<number, Run>();
+let nextRunId = 1;
+
+const schedule = (callback: () => void, ticks: number, repeat: boolean): number => {
+	const interval = Math.max(1, Math.floor(ticks));
+	runs.set(nextRunId, { callback, interval, nextTick: system.currentTick + interval, repeat });
+	return nextRunId++;
+};
+
+export const system = {
+	currentTick: 0,
+	beforeEvents: createEvents(),
+	afterEvents: createEvents(),
+	run: (callback: () => void) => schedule(callback, 1, false),
+	runTimeout: (callback: () => void, ticks = 1) => schedule(callback, ticks, false),
+	runInterval: (callback: () => void, ticks = 1) => schedule(callback, ticks, true),
+	clearRun: (runId: number) => {
+		runs.delete(runId);
+	},
+};
+
+export const world = {
+	beforeEvents: createEvents(),
+	afterEvents: createEvents(),
+	getPlayers: () => [],
+};
+
+/** Number of runs that are still scheduled. */
+export const getScheduledRunCount = (): number => runs.size;
+
+/**
+ * Advances `system.currentTick` and calls the runs that are due, in the order they were scheduled.
+ */
+export const tickSystem = (count = 1): void => {
+	for (let i = 0; i < count; i++) {
+		system.currentTick++;
+
+		for (const [runId, run] of [...runs]) {
+			if (!runs.has(runId) || run.nextTick > system.currentTick) continue;
+
+			if (run.repeat) {
+				run.nextTick += run.interval;
+			} else {
+				runs.delete(runId);
+			}
+
+			run.callback();
+		}
+	}
+};
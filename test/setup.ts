@@ -0,0 +1,4 @@
+// Preloaded with `node --import` (see the test script in package.json).
+import { register } from "node:module";
+
+register("./minecraft-server-loader.js", import.meta.url);
@@ -0,0 +1,482 @@
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import {
+	HookedItemState,
+	MachineState,
+	StateDrivenHookedItem,
+	StateMachineDefinition,
+	StateMachineError,
+	StateMachineRunner,
+	StateMachineTracer,
+	type StateMachineInstance,
+	type StateTransitionRecord,
+} from "@lc-studios-mc/scripting-utils";
+import {
+	FakeItemHookDriver,
+	FakeItemStack,
+	ItemHookEngine,
+} from "@lc-studios-mc/scripting-utils/testing";
+
+type DoorState = "closed" | "open" | "locked";
+
+interface Door {
+	hasKey: boolean;
+	log: string[];
+}
+
+const createDoor = (): Door => ({ hasKey: false, log: [] });
+
+const doorStates = () =>
+	new StateMachineDefinition<DoorState, Door>()
+		.state("closed", {
+			onEnter: (door, from) => door.log.push(`enter closed from ${from}`),
+			onExit: (door, to) => door.log.push(`exit closed to ${to}`),
+		})
+		.state("open", {
+			onEnter: (door, from) => door.log.push(`enter open from ${from}`),
+			onExit: (door, to) => door.log.push(`exit open to ${to}`),
+		})
+		.state("locked")
+		.transition("closed", "open", {
+			onTransition: (door, from, to) => door.log.push(`transition ${from} -> ${to}`),
+		})
+		.transition("open", "closed")
+		.transition("closed", "locked")
+		.transition("locked", "closed", { guard: (door) => door.hasKey });
+
+describe("StateMachineDefinition", () => {
+	it("rejects states that are declared twice", () => {
+		assert.throws(
+			() => new StateMachineDefinition<DoorState>().state("open").state("open"),
+			StateMachineError,
+		);
+	});
+
+	it("rejects auto transitions without a condition", () => {
+		assert.throws(
+			() => new StateMachineDefinition<DoorState>().autoTransition("open", "closed", {}),
+			/afterTicks or when/,
+		);
+	});
+
+	it("rejects definitions without states or with undeclared states", () => {
+		assert.throws(() => new StateMachineDefinition<DoorState>().create(), /has no states/);
+		assert.throws(
+			() =>
+				new StateMachineDefinition<DoorState>().state("open").transition("open", "locked").create(),
+			/undeclared state "locked"/,
+		);
+		assert.throws(
+			() => new StateMachineDefinition<DoorState>().state("open").initial("closed").create(),
+			/Initial state "closed"/,
+		);
+	});
+
+	it("enters the first declared state unless another initial state is set", () => {
+		const door = createDoor();
+
+		assert.equal(doorStates().create(door).state, "closed");
+		assert.deepEqual(door.log, ["enter closed from undefined"]);
+		assert.equal(doorStates().initial("locked").create(createDoor()).state, "locked");
+	});
+});
+
+describe("StateMachineInstance", () => {
+	it("only takes declared transitions whose guard passes", () => {
+		const door = createDoor();
+		const machine = doorStates().create(door);
+
+		assert.equal(machine.transition("closed"), false);
+		assert.equal(machine.transition("locked"), true);
+		assert.equal(machine.canTransition("closed"), false);
+		assert.throws(() => machine.changeState("closed"), /"locked" to "closed" is not allowed/);
+
+		door.hasKey = true;
+		assert.equal(machine.transition("closed"), true);
+		assert.equal(machine.is("closed"), true);
+	});
+
+	it("calls onExit, onTransition, listeners and onEnter in order", () => {
+		const door = createDoor();
+		const machine = doorStates()
+			.onTransition((door, { from, to }) => door.log.push(`listener ${from} -> ${to}`))
+			.create(door);
+		machine.events.on("transition", ({ from, to }) => {
+			door.log.push(`event ${from} -> ${to}`);
+		});
+		door.log.length = 0;
+
+		machine.transition("open");
+
+		assert.deepEqual(door.log, [
+			"exit closed to open",
+			"transition closed -> open",
+			"listener closed -> open",
+			"event closed -> open",
+			"enter open from closed",
+		]);
+	});
+
+	it("records transitions in the history up to the limit", () => {
+		const machine = doorStates().historyLimit(2).create(createDoor());
+
+		machine.tick();
+		machine.transition("open", "push");
+		machine.tick();
+		machine.tick();
+		machine.transition("closed");
+		machine.transition("locked");
+
+		assert.deepEqual(machine.history, [
+			{ from: "open", to: "closed", tick: 3, ticksInPreviousState: 2, cause: "manual" },
+			{ from: "closed", to: "locked", tick: 3, ticksInPreviousState: 0, cause: "manual" },
+		]);
+	});
+
+	it("takes auto transitions once their conditions are met", () => {
+		const door = createDoor();
+		const machine = doorStates()
+			.autoTransition("open", "closed", { afterTicks: 3 })
+			.autoTransition("locked", "closed", { when: (door) => door.hasKey })
+			.create(door);
+
+		machine.transition("open");
+		machine.tick();
+		machine.tick();
+		assert.equal(machine.state, "open");
+		machine.tick();
+		assert.equal(machine.state, "closed");
+		assert.equal(machine.history.at(-1)?.cause, "auto");
+
+		machine.transition("locked");
+		machine.tick();
+		assert.equal(machine.state, "locked");
+		door.hasKey = true;
+		machine.tick();
+		assert.equal(machine.state, "closed");
+	});
+
+	it("rejects transitions from onExit", () => {
+		const machine = new StateMachineDefinition<DoorState>()
+			.state("closed", { onExit: () => machine.transition("locked") })
+			.state("open")
+			.state("locked")
+			.transition("*", "open")
+			.transition("*", "locked")
+			.create();
+
+		assert.throws(() => machine.transition("open"), /while the current state is exiting/);
+	});
+
+	it("allows transitions from onEnter", () => {
+		const machine = new StateMachineDefinition<DoorState>()
+			.state("closed")
+			.state("open", { onEnter: () => machine.transition("closed", "spring") })
+			.state("locked")
+			.transition("closed", "open")
+			.transition("open", "closed")
+			.create();
+
+		assert.equal(machine.transition("open"), true);
+		assert.equal(machine.state, "closed");
+		assert.deepEqual(
+			machine.history.map(({ to, cause }) => `${to} (${cause})`),
+			["open (manual)", "closed (spring)"],
+		);
+	});
+});
+
+describe("StateMachineRunner", () => {
+	interface Boss {
+		log: string[];
+	}
+
+	interface BossEvents {
+		hurt: { damage: number };
+		taunt: undefined;
+	}
+
+	class Phase extends MachineState<Boss, BossEvents> {
+		constructor(
+			readonly name: string,
+			boss: Boss,
+			parent?: Phase,
+			private readonly handledEvent?: keyof BossEvents,
+		) {
+			super(boss, parent);
+		}
+
+		override get stateName(): string {
+			return this.name;
+		}
+
+		override onEnter(): void {
+			this.context.log.push(`enter ${this.name}`);
+		}
+
+		override onExit(): void {
+			this.context.log.push(`exit ${this.name}`);
+		}
+
+		override onTick(): void {
+			this.context.log.push(`tick ${this.name}`);
+		}
+
+		override handle<K extends keyof BossEvents>(event: K): boolean {
+			if (event !== this.handledEvent) return false;
+			this.context.log.push(`${this.name} handled ${event}`);
+			return true;
+		}
+	}
+
+	const setupBoss = () => {
+		const boss: Boss = { log: [] };
+		const fight = new Phase("Fight", boss, undefined, "taunt");
+		const calm = new Phase("Calm", boss, fight, "hurt");
+		const rage = new Phase("Rage", boss, fight);
+		const runner = new StateMachineRunner<Boss, BossEvents, [], Phase>(calm);
+		boss.log.length = 0;
+
+		return { boss, fight, calm, rage, runner };
+	};
+
+	it("has no state until the first transition", () => {
+		const runner = new StateMachineRunner<Boss>();
+
+		assert.equal(runner.hasState, false);
+		assert.throws(() => runner.state, StateMachineError);
+		runner.tick();
+		assert.equal(runner.totalTicks, 0);
+	});
+
+	it("only exits and enters the levels that change", () => {
+		const { boss, rage, runner } = setupBoss();
+
+		runner.changeState(rage);
+
+		assert.equal(runner.state, rage);
+		assert.deepEqual(boss.log, ["exit Calm", "enter Rage"]);
+	});
+
+	it("exits and enters the current state again when changing to it", () => {
+		const { boss, calm, runner } = setupBoss();
+
+		runner.changeState(calm);
+
+		assert.deepEqual(boss.log, ["exit Calm", "enter Calm"]);
+	});
+
+	it("ticks every level outermost first and stops when a level changes the state", () => {
+		const { boss, fight, calm, rage, runner } = setupBoss();
+
+		runner.tick();
+		assert.deepEqual(boss.log, ["tick Fight", "tick Calm"]);
+		assert.equal(calm.currentTick, 1);
+
+		fight.onTick = () => runner.changeState(rage);
+		boss.log.length = 0;
+		runner.tick();
+
+		assert.deepEqual(boss.log, ["exit Calm", "enter Rage"]);
+		assert.equal(rage.currentTick, 0);
+		assert.equal(runner.totalTicks, 2);
+	});
+
+	it("bubbles events up to the parent states until one handles them", () => {
+		const { boss, rage, runner } = setupBoss();
+
+		assert.equal(runner.dispatch("hurt", { damage: 1 }), true);
+		assert.equal(runner.dispatch("taunt", undefined), true);
+		runner.changeState(rage);
+		assert.equal(runner.dispatch("hurt", { damage: 1 }), false);
+
+		assert.deepEqual(boss.log, [
+			"Calm handled hurt",
+			"Fight handled taunt",
+			"exit Calm",
+			"enter Rage",
+		]);
+	});
+
+	it("emits transitions with the previous state", () => {
+		const { calm, rage, runner } = setupBoss();
+		const transitions: string[] = [];
+		runner.events.on("transition", ({ from, to, cause }) => {
+			transitions.push(`${from?.name} -> ${to.name} (${cause})`);
+		});
+
+		runner.changeState(rage, "hurt");
+		runner.changeState(calm);
+
+		assert.deepEqual(transitions, ["Calm -> Rage (hurt)", "Rage -> Calm (manual)"]);
+	});
+});
+
+describe("StateMachineTracer", () => {
+	const record = (tick: number): StateTransitionRecord => ({
+		from: "Idle",
+		to: "Aiming",
+		tick,
+		ticksInPreviousState: 5,
+		cause: "manual",
+	});
+
+	it("rejects capacities that are not positive integers", () => {
+		assert.throws(() => new StateMachineTracer(0), StateMachineError);
+		assert.throws(() => new StateMachineTracer(1.5), StateMachineError);
+	});
+
+	it("keeps the most recent transitions, oldest first", () => {
+		const tracer = new StateMachineTracer(3);
+		for (let tick = 1; tick <= 5; tick++) {
+			tracer.record(record(tick));
+		}
+
+		assert.equal(tracer.size, 3);
+		assert.deepEqual(
+			tracer.getEntries().map(({ tick }) => tick),
+			[3, 4, 5],
+		);
+		assert.deepEqual(
+			tracer.getEntries(2).map(({ tick }) => tick),
+			[4, 5],
+		);
+		assert.equal(tracer.getLatest()?.tick, 5);
+
+		tracer.clear();
+		assert.deepEqual(tracer.getEntries(), []);
+		assert.equal(tracer.getLatest(), undefined);
+
+		tracer.record(record(6));
+		assert.deepEqual(
+			tracer.getEntries().map(({ tick }) => tick),
+			[6],
+		);
+	});
+
+	it("formats transitions with the label", () => {
+		assert.equal(
+			new StateMachineTracer(1, "pistol").format(record(120)),
+			"[pistol] tick 120: Idle -> Aiming (manual, 5 ticks in Idle)",
+		);
+		assert.equal(
+			new StateMachineTracer().format(record(120)),
+			"tick 120: Idle -> Aiming (manual, 5 ticks in Idle)",
+		);
+	});
+
+	it("records the transitions of machines and runners", () => {
+		const tracer = new StateMachineTracer();
+
+		const machine = doorStates().create(createDoor());
+		machine.tracer = tracer;
+		machine.tick();
+		machine.transition("open", "push");
+
+		class Named extends MachineState<void> {
+			constructor(
+				readonly name: string,
+				parent?: Named,
+			) {
+				super(undefined, parent);
+			}
+
+			override get stateName(): string {
+				return this.name;
+			}
+		}
+
+		const equipped = new Named("Equipped");
+		const runner = new StateMachineRunner<void>(new Named("Idle", equipped));
+		runner.tracer = tracer;
+		runner.tick();
+		runner.tick();
+		runner.changeState(new Named("Aiming", equipped));
+
+		assert.deepEqual(tracer.getEntries(), [
+			{ from: "closed", to: "open", tick: 1, ticksInPreviousState: 1, cause: "push" },
+			{
+				from: "Equipped/Idle",
+				to: "Equipped/Aiming",
+				tick: 2,
+				ticksInPreviousState: 2,
+				cause: "manual",
+			},
+		]);
+	});
+});
+
+describe("StateDrivenHookedItem", () => {
+	type GunStateName = "idle" | "firing";
+
+	const gunStates = new StateMachineDefinition<GunStateName, Gun>()
+		.state("idle")
+		.state("firing")
+		.transition("idle", "firing")
+		.transition("firing", "idle");
+
+	abstract class GunState extends HookedItemState<Gun> {
+		override onEnter(): void {
+			this.owner.log.push(`enter ${this.stateName}`);
+		}
+
+		override onExit(): void {
+			this.owner.log.push(`exit ${this.stateName}`);
+		}
+	}
+
+	class IdleState extends GunState {}
+
+	class FiringState extends GunState {
+		override onEnter(): void {
+			super.onEnter();
+			this.owner.machine.transition("idle", "recoil");
+		}
+	}
+
+	class Gun extends StateDrivenHookedItem<GunState> {
+		readonly log: string[] = [];
+		override state!: GunState;
+		readonly machine: StateMachineInstance<GunStateName, Gun> = this.useStateMachine(
+			gunStates,
+			(name) => (name === "idle" ? new IdleState(this) : new FiringState(this)),
+		);
+	}
+
+	const setupGun = () => {
+		const driver = new FakeItemHookDriver();
+		const engine = new ItemHookEngine(driver);
+		engine.registry.register("test:gun", (ctx) => new Gun(ctx));
+
+		const player = driver.addPlayer();
+		player.container.setItem(0, new FakeItemStack("test:gun"));
+		driver.tick();
+
+		return engine.getActiveHookOf(player.asPlayer(), Gun)!;
+	};
+
+	it("enters the state of the machine", () => {
+		const gun = setupGun();
+
+		assert.equal(gun.machine.state, "idle");
+		assert.ok(gun.state instanceof IdleState);
+		assert.deepEqual(gun.log, ["enter IdleState"]);
+	});
+
+	it("follows transitions that a state makes from onEnter", () => {
+		const gun = setupGun();
+
+		assert.equal(gun.machine.transition("firing"), true);
+
+		assert.equal(gun.machine.state, "idle");
+		assert.ok(gun.state instanceof IdleState);
+		assert.deepEqual(gun.log, [
+			"enter IdleState",
+			"exit IdleState",
+			"enter FiringState",
+			"exit FiringState",
+			"enter IdleState",
+		]);
+		assert.equal(gun.tracer, undefined);
+	});
+});
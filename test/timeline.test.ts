@@ -0,0 +1,529 @@
+import { strict as assert } from "node:assert";
+import { describe, it } from "node:test";
+import {
+	CompositeTimeline,
+	Easing,
+	Timeline,
+	TimelineError,
+	TimelinePlayer,
+	TimelineTrack,
+} from "@lc-studios-mc/scripting-utils";
+import { getScheduledRunCount, tickSystem } from "./minecraft-server.js";
+
+describe("Timeline keys and markers", () => {
+	const createShot = (log: string[]) =>
+		new Timeline<string[]>(
+			20,
+			{
+				0: (log) => log.push("draw"),
+				7: (log) => log.push("fire"),
+				20: (log) => log.push("holster"),
+			},
+			{ keyUnit: "ticks", markers: { muzzle_flash: 7 } },
+		);
+
+	it("resolves tick, second and percentage keys into ticks", () => {
+		const record = { 0.3: () => {}, 1.15: () => {}, 2: () => {} };
+
+		const ticks = (timeline: Timeline) => timeline.getAllEvents().map(({ tick }) => tick);
+
+		assert.deepEqual(ticks(new Timeline(40, record, { keyUnit: "seconds" })), [6, 23, 40]);
+		assert.deepEqual(ticks(new Timeline(40, { 0.5: () => {}, 1: () => {} })), [20, 40]);
+		assert.deepEqual(
+			ticks(new Timeline(40, { 3: () => {}, 17: () => {} }, { keyUnit: "ticks" })),
+			[3, 17],
+		);
+	});
+
+	it("rejects fractional tick keys, out of range keys and duplicate ticks", () => {
+		assert.throws(
+			() => new Timeline(20, { 2.5: () => {} }, { keyUnit: "ticks" }),
+			/Tick must be a whole number/,
+		);
+		assert.throws(
+			() => new Timeline(20, { 21: () => {} }, { keyUnit: "ticks" }),
+			/Tick out of range/,
+		);
+		assert.throws(
+			() => new Timeline(20, { 0.1: () => {}, 0.12: () => {} }, { keyUnit: "seconds" }),
+			/Duplicate time found: 0.12 \(tick 2\)/,
+		);
+		assert.throws(
+			() => new Timeline(20, { 0: () => {} }, { keyUnit: "ticks", markers: { late: 25 } }),
+			(error: unknown) => error instanceof TimelineError && error.context?.marker === "late",
+		);
+	});
+
+	it("gets markers in the key unit as ticks", () => {
+		const timeline = new Timeline(
+			40,
+			{ 0: () => {} },
+			{ keyUnit: "seconds", markers: { b: 1.5, a: 0.5 } },
+		);
+
+		assert.equal(timeline.getMarker("b"), 30);
+		assert.equal(timeline.hasMarker("c"), false);
+		assert.deepEqual(timeline.getMarkers(), [
+			{ name: "a", tick: 10 },
+			{ name: "b", tick: 30 },
+		]);
+		assert.throws(() => timeline.getMarker("c"), /Unknown marker: "c"/);
+	});
+
+	it("triggers the events at a seeked marker, but not the ones before it", () => {
+		const log: string[] = [];
+		const timeline = createShot(log);
+
+		timeline.seek("muzzle_flash");
+		timeline.process(7, log);
+		timeline.process(20, log);
+
+		assert.deepEqual(log, ["fire", "holster"]);
+	});
+
+	it("skips every event when seeking past the end", () => {
+		const log: string[] = [];
+		const timeline = createShot(log);
+
+		timeline.seek(25);
+		timeline.process(20, log);
+
+		assert.deepEqual(log, []);
+	});
+
+	it("resolves marker waiters when process() reaches the marker", async () => {
+		const log: string[] = [];
+		const timeline = createShot(log);
+
+		const reached = timeline.waitForMarker("muzzle_flash").then(() => log.push("reached"));
+		timeline.process(6, log);
+		await Promise.resolve();
+		assert.deepEqual(log, ["draw"]);
+
+		timeline.process(8, log);
+		await reached;
+		assert.deepEqual(log, ["draw", "fire", "reached"]);
+	});
+
+	it("waits for the next pass when the marker was already passed", async () => {
+		const log: string[] = [];
+		const timeline = createShot(log);
+		timeline.process(10, log);
+
+		let isResolved = false;
+		const reached = timeline.waitForMarker("muzzle_flash").then(() => (isResolved = true));
+		timeline.process(15, log);
+		await Promise.resolve();
+		assert.equal(isResolved, false);
+
+		timeline.reset();
+		timeline.process(7, log);
+		await reached;
+		assert.equal(isResolved, true);
+	});
+});
+
+describe("Timeline spans", () => {
+	const createSpanTimeline = (log: string[]) =>
+		new Timeline<string[]>(
+			10,
+			{ 0.5: (log) => log.push("event") },
+			{
+				spans: [
+					{
+						start: 0.2,
+						end: 0.6,
+						onEnter: (log) => log.push("enter"),
+						onUpdate: (progress, log) => log.push(`update ${progress}`),
+						onExit: (log) => log.push("exit"),
+					},
+				],
+			},
+		);
+
+	it("enters, updates and exits a span in tick order with the events", () => {
+		const log: string[] = [];
+		const timeline = createSpanTimeline(log);
+
+		for (const tick of [1, 2, 3, 5, 6, 7]) {
+			timeline.process(tick, log);
+		}
+
+		assert.deepEqual(log, [
+			"enter",
+			"update 0",
+			"update 0.25",
+			"event",
+			"update 0.75",
+			"update 1",
+			"exit",
+		]);
+	});
+
+	it("calls every callback of a span that is jumped over", () => {
+		const log: string[] = [];
+		createSpanTimeline(log).process(10, log);
+
+		assert.deepEqual(log, ["enter", "event", "update 1", "exit"]);
+	});
+
+	it("exits an active span when the timeline is reset or seeked out of it", () => {
+		const log: string[] = [];
+		const timeline = createSpanTimeline(log);
+
+		timeline.process(3, log);
+		timeline.reset();
+		timeline.process(3, log);
+		timeline.seek(8);
+
+		assert.deepEqual(log, ["enter", "update 0.25", "exit", "enter", "update 0.25", "exit"]);
+		assert.equal(timeline.getAllSpans()[0]?.state, "done");
+	});
+
+	it("rejects spans that end before they start", () => {
+		assert.throws(
+			() => new Timeline(10, {}, { spans: [{ start: 0.6, end: 0.2 }] }),
+			/Span out of range/,
+		);
+	});
+});
+
+describe("TimelineTrack", () => {
+	const keyframes = [
+		{ at: 0.5, value: 10, easing: Easing.easeInQuad },
+		{ at: 0, value: 0 },
+		{ at: 1, value: 20 },
+	];
+	const track = TimelineTrack.number(keyframes);
+
+	it("interpolates between keyframes with the easing of the segment start", () => {
+		assert.equal(track.getValueAt(0.25), 5);
+		assert.equal(track.getValueAt(0.75), 12.5);
+	});
+
+	it("holds the first and last values outside of the keyframes", () => {
+		const inner = TimelineTrack.number([
+			{ at: 0.2, value: 1 },
+			{ at: 0.8, value: 2 },
+		]);
+
+		assert.equal(inner.getValueAt(0), 1);
+		assert.equal(inner.getValueAt(1), 2);
+	});
+
+	it("interpolates vectors and colors", () => {
+		const vector = TimelineTrack.vector3([
+			{ at: 0, value: { x: 0, y: 0, z: 0 } },
+			{ at: 1, value: { x: 2, y: 4, z: 6 } },
+		]);
+		const color = TimelineTrack.color([
+			{ at: 0, value: { red: 0, green: 0, blue: 0, alpha: 0 } },
+			{ at: 1, value: { red: 1, green: 1, blue: 1 } },
+		]);
+
+		assert.deepEqual({ ...vector.getValueAt(0.5) }, { x: 1, y: 2, z: 3 });
+		assert.deepEqual(color.getValueAt(0.5), { red: 0.5, green: 0.5, blue: 0.5 });
+	});
+
+	it("calls the setters of the tracks of a timeline on every process", () => {
+		const values: number[] = [];
+		const timeline = new Timeline(
+			4,
+			{},
+			{ tracks: [TimelineTrack.number(keyframes, (value) => values.push(value))] },
+		);
+
+		timeline.process(1, undefined);
+		timeline.process(3, undefined);
+
+		assert.deepEqual(values, [5, 12.5]);
+		assert.equal(timeline.getTrackValue(track, 2), 10);
+	});
+
+	it("rejects keyframes that are out of range or duplicated", () => {
+		assert.throws(() => TimelineTrack.number([{ at: 1.5, value: 0 }]), /Keyframe out of range/);
+		assert.throws(
+			() =>
+				TimelineTrack.number([
+					{ at: 0, value: 0 },
+					{ at: 0, value: 1 },
+				]),
+			/Duplicate keyframe/,
+		);
+		assert.throws(() => TimelineTrack.number([]), TimelineError);
+	});
+});
+
+describe("CompositeTimeline", () => {
+	const createStep = (log: string[], name: string, duration: number) =>
+		new Timeline<string[]>(
+			duration,
+			{
+				0: (log) => log.push(`${name} start`),
+				[duration]: (log) => log.push(`${name} end`),
+			},
+			{ keyUnit: "ticks", markers: { [`${name}_end`]: duration } },
+		);
+
+	it("computes the duration of sequences, parallels, delays and nests", () => {
+		const log: string[] = [];
+
+		assert.equal(
+			CompositeTimeline.sequence(
+				createStep(log, "a", 10),
+				5,
+				createStep(log, "b", 20),
+				3,
+			).getDuration(),
+			38,
+		);
+		assert.equal(
+			CompositeTimeline.parallel(createStep(log, "a", 10), createStep(log, "b", 20)).getDuration(),
+			20,
+		);
+		assert.equal(CompositeTimeline.delay(5, createStep(log, "a", 10)).getDuration(), 15);
+		assert.equal(
+			CompositeTimeline.nest(createStep(log, "a", 10), createStep(log, "b", 20), 5).getDuration(),
+			25,
+		);
+	});
+
+	it("runs the events of one child before the next one when jumping over both", () => {
+		const log: string[] = [];
+		const timeline = CompositeTimeline.sequence(
+			createStep(log, "a", 10),
+			5,
+			createStep(log, "b", 10),
+		);
+
+		timeline.process(4, log);
+		assert.deepEqual(log, ["a start"]);
+
+		timeline.process(25, log);
+		assert.deepEqual(log, ["a start", "a end", "b start", "b end"]);
+		assert.equal(timeline.isComplete(25), true);
+	});
+
+	it("offsets the markers of its children, and the first one of a name wins", () => {
+		const log: string[] = [];
+		const timeline = CompositeTimeline.sequence(
+			createStep(log, "a", 10),
+			5,
+			createStep(log, "b", 10),
+			CompositeTimeline.delay(2, createStep(log, "a", 4)),
+		);
+
+		assert.deepEqual(timeline.getMarkers(), [
+			{ name: "a_end", tick: 10 },
+			{ name: "b_end", tick: 25 },
+		]);
+	});
+
+	it("triggers the events at a seeked marker, but not the ones before it", () => {
+		const log: string[] = [];
+		const timeline = CompositeTimeline.sequence(createStep(log, "a", 10), createStep(log, "b", 10));
+
+		timeline.seek("a_end");
+		timeline.process(10, log);
+		assert.deepEqual(log, ["a end", "b start"]);
+
+		timeline.process(20, log);
+		assert.deepEqual(log, ["a end", "b start", "b end"]);
+	});
+
+	it("skips the events of children that ended before a seeked tick", () => {
+		const log: string[] = [];
+		const timeline = CompositeTimeline.parallel(createStep(log, "a", 5), createStep(log, "b", 10));
+
+		timeline.seek(8);
+		timeline.process(10, log);
+
+		assert.deepEqual(log, ["b end"]);
+	});
+
+	it("waits for the next pass when the marker was already passed", async () => {
+		const log: string[] = [];
+		const timeline = CompositeTimeline.delay(5, createStep(log, "a", 10));
+		timeline.process(15, log);
+
+		let isResolved = false;
+		const reached = timeline.waitForMarker("a_end").then(() => (isResolved = true));
+		timeline.process(15, log);
+		await Promise.resolve();
+		assert.equal(isResolved, false);
+
+		timeline.process(0, log);
+		timeline.process(15, log);
+		await reached;
+		assert.equal(isResolved, true);
+	});
+
+	it("rejects a timeline that is placed more than once", () => {
+		const log: string[] = [];
+		const step = createStep(log, "a", 10);
+
+		assert.throws(() => CompositeTimeline.sequence(step, step), /already placed/);
+		assert.throws(
+			() => CompositeTimeline.nest(CompositeTimeline.delay(5, step), step, 2),
+			TimelineError,
+		);
+	});
+});
+
+describe("TimelinePlayer", () => {
+	const createTimeline = (log: string[]) =>
+		new Timeline<string[]>(
+			10,
+			{
+				0: (log) => log.push("start"),
+				5: (log) => log.push("middle"),
+				10: (log) => log.push("end"),
+			},
+			{ keyUnit: "ticks", markers: { middle: 5 } },
+		);
+
+	it("plays the timeline to the end, scaled by the speed", async () => {
+		const log: string[] = [];
+		const player = new TimelinePlayer(createTimeline(log), log, { speed: 2 });
+
+		const playback = player.play();
+		assert.deepEqual(log, ["start"]);
+		tickSystem(4);
+		assert.equal(player.position, 8);
+		assert.deepEqual(log, ["start", "middle"]);
+		tickSystem();
+
+		assert.equal(await playback, "completed");
+		assert.equal(player.state, "completed");
+		assert.deepEqual(log, ["start", "middle", "end"]);
+		assert.equal(getScheduledRunCount(), 0);
+	});
+
+	it("loops the given number of cycles", async () => {
+		const log: string[] = [];
+		const cycles: number[] = [];
+		const player = new TimelinePlayer(createTimeline(log), log, {
+			loop: "loop",
+			loopCount: 2,
+			onLoop: (cycle) => cycles.push(cycle),
+		});
+
+		const playback = player.play();
+		tickSystem(20);
+
+		assert.equal(await playback, "completed");
+		assert.deepEqual(cycles, [1]);
+		assert.deepEqual(log, ["start", "middle", "end", "start", "middle", "end"]);
+	});
+
+	it("plays tracks backwards in ping-pong mode, and events only forwards", async () => {
+		const log: string[] = [];
+		const values: number[] = [];
+		const track = TimelineTrack.number<string[]>(
+			[
+				{ at: 0, value: 0 },
+				{ at: 1, value: 10 },
+			],
+			(value) => values.push(value),
+		);
+		const timeline = new Timeline<string[]>(
+			4,
+			{ 0.5: (log) => log.push("half") },
+			{ tracks: [track] },
+		);
+		const player = new TimelinePlayer(timeline, log, { loop: "pingPong", loopCount: 1 });
+
+		const playback = player.play();
+		tickSystem(8);
+
+		assert.equal(await playback, "completed");
+		assert.deepEqual(values, [0, 2.5, 5, 7.5, 10, 7.5, 5, 2.5, 0]);
+		assert.deepEqual(log, ["half"]);
+	});
+
+	it("pauses, resumes and stops", async () => {
+		const log: string[] = [];
+		const stops: string[] = [];
+		const player = new TimelinePlayer(createTimeline(log), log, {
+			onStop: () => stops.push("stopped"),
+		});
+
+		const playback = player.play();
+		tickSystem(2);
+		player.pause();
+		tickSystem(5);
+		assert.equal(player.position, 2);
+
+		player.resume();
+		tickSystem(3);
+		assert.equal(player.position, 5);
+
+		player.stop();
+		assert.equal(await playback, "stopped");
+		assert.equal(await player.whenFinished(), "stopped");
+		assert.equal(player.position, 0);
+		assert.deepEqual(stops, ["stopped"]);
+		assert.equal(getScheduledRunCount(), 0);
+	});
+
+	it("ends the playback when the timeline throws", async () => {
+		const errors: unknown[] = [];
+		const timeline = new Timeline(
+			4,
+			{
+				2: () => {
+					throw new Error("boom");
+				},
+			},
+			{ keyUnit: "ticks" },
+		);
+		const player = new TimelinePlayer(timeline, undefined, {
+			onError: (error) => errors.push(error),
+		});
+
+		const playback = player.play();
+		tickSystem(2);
+
+		assert.equal(await playback, "error");
+		assert.equal(player.state, "error");
+		assert.ok(errors[0] instanceof TimelineError);
+		assert.equal(getScheduledRunCount(), 0);
+	});
+
+	it("starts the next playback from a position seeked after the last one ended", async () => {
+		const log: string[] = [];
+		const player = new TimelinePlayer(createTimeline(log), log);
+
+		const first = player.play();
+		tickSystem(10);
+		assert.equal(await first, "completed");
+
+		player.seek(7);
+		log.length = 0;
+		const second = player.play();
+		tickSystem(3);
+
+		assert.equal(await second, "completed");
+		assert.deepEqual(log, ["end"]);
+	});
+
+	it("resolves whenFinished with idle when nothing was played", async () => {
+		const player = new TimelinePlayer(createTimeline([]), []);
+
+		assert.equal(await player.whenFinished(), "idle");
+	});
+
+	it("rejects invalid options", () => {
+		const timeline = createTimeline([]);
+
+		assert.throws(() => new TimelinePlayer(timeline, [], { speed: -1 }), TimelineError);
+		assert.throws(
+			() => new TimelinePlayer(timeline, [], { loop: "loop", loopCount: 0 }),
+			TimelineError,
+		);
+		assert.throws(
+			() => new TimelinePlayer(timeline, [], { loop: "none", loopCount: 2 }),
+			/must be 1 with loop mode "none"/,
+		);
+	});
+});